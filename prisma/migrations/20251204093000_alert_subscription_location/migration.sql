@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "AlertSubscription" ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION;
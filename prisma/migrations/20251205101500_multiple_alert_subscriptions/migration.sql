@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "AlertSubscription" ADD COLUMN     "isActive" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "name" TEXT,
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE INDEX "AlertSubscription_userId_idx" ON "AlertSubscription"("userId");
+
+-- CreateIndex
+CREATE INDEX "AlertSubscription_isActive_idx" ON "AlertSubscription"("isActive");
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "AlertDeliveryStatus" AS ENUM ('QUEUED', 'SENT', 'FAILED', 'BOUNCED');
+
+-- CreateTable
+CREATE TABLE "AlertDelivery" (
+    "id" TEXT NOT NULL,
+    "alertLogId" TEXT NOT NULL,
+    "subscriptionId" TEXT,
+    "userId" TEXT,
+    "channel" "AlertType" NOT NULL,
+    "status" "AlertDeliveryStatus" NOT NULL DEFAULT 'QUEUED',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "providerMessageId" TEXT,
+    "nextAttemptAt" TIMESTAMP(3),
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AlertDelivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AlertDelivery_alertLogId_idx" ON "AlertDelivery"("alertLogId");
+
+-- CreateIndex
+CREATE INDEX "AlertDelivery_userId_idx" ON "AlertDelivery"("userId");
+
+-- CreateIndex
+CREATE INDEX "AlertDelivery_status_nextAttemptAt_idx" ON "AlertDelivery"("status", "nextAttemptAt");
+
+-- AddForeignKey
+ALTER TABLE "AlertDelivery" ADD CONSTRAINT "AlertDelivery_alertLogId_fkey" FOREIGN KEY ("alertLogId") REFERENCES "AlertLog"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AlertDelivery" ADD CONSTRAINT "AlertDelivery_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "AlertSubscription"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AlertDelivery" ADD CONSTRAINT "AlertDelivery_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "UserAlert" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "alertLogId" TEXT NOT NULL,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserAlert_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AlertLog_missingPersonId_idx" ON "AlertLog"("missingPersonId");
+
+-- CreateIndex
+CREATE INDEX "AlertLog_createdAt_idx" ON "AlertLog"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "UserAlert_userId_readAt_idx" ON "UserAlert"("userId", "readAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserAlert_userId_alertLogId_key" ON "UserAlert"("userId", "alertLogId");
+
+-- AddForeignKey
+ALTER TABLE "UserAlert" ADD CONSTRAINT "UserAlert_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserAlert" ADD CONSTRAINT "UserAlert_alertLogId_fkey" FOREIGN KEY ("alertLogId") REFERENCES "AlertLog"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "ChatAlias" (
+    "id" TEXT NOT NULL,
+    "threadId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "pseudonym" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChatAlias_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatAlias_threadId_userId_key" ON "ChatAlias"("threadId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatAlias_threadId_number_key" ON "ChatAlias"("threadId", "number");
+
+-- AddForeignKey
+ALTER TABLE "ChatAlias" ADD CONSTRAINT "ChatAlias_threadId_fkey" FOREIGN KEY ("threadId") REFERENCES "ChatThread"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatAlias" ADD CONSTRAINT "ChatAlias_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "ChatThread" ADD COLUMN     "title" TEXT;
+
+-- CreateTable
+CREATE TABLE "ChatThreadMember" (
+    "id" TEXT NOT NULL,
+    "threadId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "addedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChatThreadMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ChatThread_missingPersonId_idx" ON "ChatThread"("missingPersonId");
+
+-- CreateIndex
+CREATE INDEX "ChatThreadMember_userId_idx" ON "ChatThreadMember"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatThreadMember_threadId_userId_key" ON "ChatThreadMember"("threadId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "ChatThreadMember" ADD CONSTRAINT "ChatThreadMember_threadId_fkey" FOREIGN KEY ("threadId") REFERENCES "ChatThread"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatThreadMember" ADD CONSTRAINT "ChatThreadMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
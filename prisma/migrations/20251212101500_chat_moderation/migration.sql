@@ -0,0 +1,55 @@
+-- AlterTable
+ALTER TABLE "ChatMessage" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedById" TEXT,
+ADD COLUMN     "hiddenAt" TIMESTAMP(3),
+ADD COLUMN     "hiddenById" TEXT,
+ADD COLUMN     "hiddenReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "ChatMessageFlag" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "reporterId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" "ReportStatus" NOT NULL DEFAULT 'PENDENTE',
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChatMessageFlag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ChatMute" (
+    "id" TEXT NOT NULL,
+    "threadId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "mutedById" TEXT NOT NULL,
+    "reason" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChatMute_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ChatMessageFlag_status_idx" ON "ChatMessageFlag"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatMessageFlag_messageId_reporterId_key" ON "ChatMessageFlag"("messageId", "reporterId");
+
+-- CreateIndex
+CREATE INDEX "ChatMute_threadId_userId_idx" ON "ChatMute"("threadId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "ChatMessageFlag" ADD CONSTRAINT "ChatMessageFlag_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "ChatMessage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatMessageFlag" ADD CONSTRAINT "ChatMessageFlag_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatMute" ADD CONSTRAINT "ChatMute_threadId_fkey" FOREIGN KEY ("threadId") REFERENCES "ChatThread"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatMute" ADD CONSTRAINT "ChatMute_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,66 @@
+-- CreateTable
+CREATE TABLE "ChatReadMarker" (
+    "id" TEXT NOT NULL,
+    "threadId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "lastReadMessageId" TEXT,
+    "lastReadAt" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChatReadMarker_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AuthorityChatReadMarker" (
+    "id" TEXT NOT NULL,
+    "chatId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "lastReadMessageId" TEXT,
+    "lastReadAt" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AuthorityChatReadMarker_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill: o destinatário leu até a última mensagem marcada como lida (isRead)
+INSERT INTO "AuthorityChatReadMarker" ("id", "chatId", "userId", "lastReadAt", "updatedAt")
+SELECT
+    md5(random()::text || m."chatId" || recipient."userId"),
+    m."chatId",
+    recipient."userId",
+    MAX(m."createdAt"),
+    CURRENT_TIMESTAMP
+FROM "AuthorityChatMessage" m
+JOIN "AuthorityChat" c ON c."id" = m."chatId"
+CROSS JOIN LATERAL (
+    SELECT CASE WHEN m."senderId" = c."userId" THEN c."authorityId" ELSE c."userId" END AS "userId"
+) recipient
+WHERE m."isRead" = true
+GROUP BY m."chatId", recipient."userId";
+
+-- AlterTable
+ALTER TABLE "AuthorityChatMessage" DROP COLUMN "isRead";
+
+-- CreateIndex
+CREATE INDEX "ChatMessage_threadId_createdAt_idx" ON "ChatMessage"("threadId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuthorityChatMessage_chatId_createdAt_idx" ON "AuthorityChatMessage"("chatId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatReadMarker_threadId_userId_key" ON "ChatReadMarker"("threadId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuthorityChatReadMarker_chatId_userId_key" ON "AuthorityChatReadMarker"("chatId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "ChatReadMarker" ADD CONSTRAINT "ChatReadMarker_threadId_fkey" FOREIGN KEY ("threadId") REFERENCES "ChatThread"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatReadMarker" ADD CONSTRAINT "ChatReadMarker_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AuthorityChatReadMarker" ADD CONSTRAINT "AuthorityChatReadMarker_chatId_fkey" FOREIGN KEY ("chatId") REFERENCES "AuthorityChat"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AuthorityChatReadMarker" ADD CONSTRAINT "AuthorityChatReadMarker_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "AttachmentKind" AS ENUM ('IMAGEM', 'AUDIO');
+
+-- CreateTable
+CREATE TABLE "ChatAttachment" (
+    "id" TEXT NOT NULL,
+    "uploaderId" TEXT NOT NULL,
+    "kind" "AttachmentKind" NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "originalName" TEXT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "chatMessageId" TEXT,
+    "authorityChatMessageId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChatAttachment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatAttachment_storageKey_key" ON "ChatAttachment"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "ChatAttachment_chatMessageId_idx" ON "ChatAttachment"("chatMessageId");
+
+-- CreateIndex
+CREATE INDEX "ChatAttachment_authorityChatMessageId_idx" ON "ChatAttachment"("authorityChatMessageId");
+
+-- CreateIndex
+CREATE INDEX "ChatAttachment_uploaderId_idx" ON "ChatAttachment"("uploaderId");
+
+-- AddForeignKey
+ALTER TABLE "ChatAttachment" ADD CONSTRAINT "ChatAttachment_uploaderId_fkey" FOREIGN KEY ("uploaderId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatAttachment" ADD CONSTRAINT "ChatAttachment_chatMessageId_fkey" FOREIGN KEY ("chatMessageId") REFERENCES "ChatMessage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatAttachment" ADD CONSTRAINT "ChatAttachment_authorityChatMessageId_fkey" FOREIGN KEY ("authorityChatMessageId") REFERENCES "AuthorityChatMessage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
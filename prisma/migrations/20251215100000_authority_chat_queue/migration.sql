@@ -0,0 +1,64 @@
+-- DropForeignKey
+ALTER TABLE "AuthorityChat" DROP CONSTRAINT "AuthorityChat_authorityId_fkey";
+
+-- AlterTable
+ALTER TABLE "AuthorityChat" ADD COLUMN     "agency" TEXT,
+ADD COLUMN     "claimedAt" TIMESTAMP(3),
+ADD COLUMN     "closedAt" TIMESTAMP(3),
+ADD COLUMN     "escalatedAt" TIMESTAMP(3),
+ADD COLUMN     "escalationLevel" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "firstResponseAt" TIMESTAMP(3),
+ADD COLUMN     "province" TEXT,
+ADD COLUMN     "resolvedAt" TIMESTAMP(3),
+ALTER COLUMN "authorityId" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "agency" TEXT;
+
+-- Conversas existentes já tinham autoridade escolhida pelo cidadão
+UPDATE "AuthorityChat" SET "claimedAt" = "createdAt" WHERE "authorityId" IS NOT NULL;
+
+-- Primeira resposta das conversas existentes: primeira mensagem de quem não abriu a conversa
+UPDATE "AuthorityChat" c SET "firstResponseAt" = m."firstAt"
+FROM (
+    SELECT msg."chatId", MIN(msg."createdAt") AS "firstAt"
+    FROM "AuthorityChatMessage" msg
+    JOIN "AuthorityChat" chat ON chat."id" = msg."chatId"
+    WHERE msg."senderId" <> chat."userId"
+    GROUP BY msg."chatId"
+) m
+WHERE c."id" = m."chatId";
+
+UPDATE "AuthorityChat" SET "status" = 'EM_ATENDIMENTO' WHERE "status" = 'ABERTO' AND "firstResponseAt" IS NOT NULL;
+UPDATE "AuthorityChat" SET "resolvedAt" = "updatedAt" WHERE "status" = 'RESOLVIDO';
+UPDATE "AuthorityChat" SET "closedAt" = "updatedAt" WHERE "status" = 'FECHADO';
+
+-- Conversas anteriores ao SLA não são escaladas retroativamente
+UPDATE "AuthorityChat" SET "escalationLevel" = 10 WHERE "firstResponseAt" IS NULL;
+
+-- CreateTable
+CREATE TABLE "AuthorityChatTransfer" (
+    "id" TEXT NOT NULL,
+    "chatId" TEXT NOT NULL,
+    "fromAuthorityId" TEXT,
+    "toAuthorityId" TEXT,
+    "toProvince" TEXT,
+    "toAgency" TEXT,
+    "reason" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuthorityChatTransfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AuthorityChat_status_province_idx" ON "AuthorityChat"("status", "province");
+
+-- CreateIndex
+CREATE INDEX "AuthorityChatTransfer_chatId_idx" ON "AuthorityChatTransfer"("chatId");
+
+-- AddForeignKey
+ALTER TABLE "AuthorityChat" ADD CONSTRAINT "AuthorityChat_authorityId_fkey" FOREIGN KEY ("authorityId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AuthorityChatTransfer" ADD CONSTRAINT "AuthorityChatTransfer_chatId_fkey" FOREIGN KEY ("chatId") REFERENCES "AuthorityChat"("id") ON DELETE CASCADE ON UPDATE CASCADE;
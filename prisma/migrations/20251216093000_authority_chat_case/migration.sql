@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "AuthorityChat" ADD COLUMN     "missingPersonId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "AuthorityChat_missingPersonId_idx" ON "AuthorityChat"("missingPersonId");
+
+-- AddForeignKey
+ALTER TABLE "AuthorityChat" ADD CONSTRAINT "AuthorityChat_missingPersonId_fkey" FOREIGN KEY ("missingPersonId") REFERENCES "MissingPerson"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "MissionRole" AS ENUM ('LIDER', 'MEMBRO');
+
+-- AlterTable
+ALTER TABLE "VolunteerMission" ADD COLUMN     "completedAt" TIMESTAMP(3),
+ADD COLUMN     "maxParticipants" INTEGER,
+ADD COLUMN     "startedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "MissionParticipant" (
+    "id" TEXT NOT NULL,
+    "missionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "MissionRole" NOT NULL DEFAULT 'MEMBRO',
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MissionParticipant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VolunteerMission_status_idx" ON "VolunteerMission"("status");
+
+-- CreateIndex
+CREATE INDEX "MissionParticipant_userId_idx" ON "MissionParticipant"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MissionParticipant_missionId_userId_key" ON "MissionParticipant"("missionId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "MissionParticipant" ADD CONSTRAINT "MissionParticipant_missionId_fkey" FOREIGN KEY ("missionId") REFERENCES "VolunteerMission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MissionParticipant" ADD CONSTRAINT "MissionParticipant_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Criadores das missões existentes passam a líderes; quem já fez check-in fica inscrito como membro
+INSERT INTO "MissionParticipant" ("id", "missionId", "userId", "role", "joinedAt")
+SELECT gen_random_uuid()::text, "id", "ownerId", 'LIDER', "createdAt" FROM "VolunteerMission";
+
+INSERT INTO "MissionParticipant" ("id", "missionId", "userId", "role", "joinedAt")
+SELECT gen_random_uuid()::text, "missionId", "volunteerId", 'MEMBRO', MIN("createdAt")
+FROM "MissionCheckIn"
+GROUP BY "missionId", "volunteerId"
+ON CONFLICT ("missionId", "userId") DO NOTHING;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "MissionCase" (
+    "id" TEXT NOT NULL,
+    "missionId" TEXT NOT NULL,
+    "missingPersonId" TEXT NOT NULL,
+    "linkedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MissionCase_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MissionCase_missingPersonId_idx" ON "MissionCase"("missingPersonId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MissionCase_missionId_missingPersonId_key" ON "MissionCase"("missionId", "missingPersonId");
+
+-- AddForeignKey
+ALTER TABLE "MissionCase" ADD CONSTRAINT "MissionCase_missionId_fkey" FOREIGN KEY ("missionId") REFERENCES "VolunteerMission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MissionCase" ADD CONSTRAINT "MissionCase_missingPersonId_fkey" FOREIGN KEY ("missingPersonId") REFERENCES "MissingPerson"("id") ON DELETE CASCADE ON UPDATE CASCADE;
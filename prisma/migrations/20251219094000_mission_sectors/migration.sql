@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "SectorStatus" AS ENUM ('NAO_PESQUISADO', 'PARCIAL', 'PESQUISADO');
+
+-- AlterTable
+ALTER TABLE "VolunteerMission" ADD COLUMN     "searchArea" JSONB,
+ADD COLUMN     "sectorSizeMeters" INTEGER;
+
+-- CreateTable
+CREATE TABLE "MissionSector" (
+    "id" TEXT NOT NULL,
+    "missionId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "row" INTEGER NOT NULL,
+    "col" INTEGER NOT NULL,
+    "polygon" JSONB NOT NULL,
+    "centerLat" DOUBLE PRECISION NOT NULL,
+    "centerLng" DOUBLE PRECISION NOT NULL,
+    "status" "SectorStatus" NOT NULL DEFAULT 'NAO_PESQUISADO',
+    "teamName" TEXT,
+    "notes" TEXT,
+    "searchedAt" TIMESTAMP(3),
+    "updatedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MissionSector_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MissionSectorAssignment" (
+    "id" TEXT NOT NULL,
+    "sectorId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "assignedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MissionSectorAssignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MissionSector_missionId_status_idx" ON "MissionSector"("missionId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MissionSector_missionId_code_key" ON "MissionSector"("missionId", "code");
+
+-- CreateIndex
+CREATE INDEX "MissionSectorAssignment_userId_idx" ON "MissionSectorAssignment"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MissionSectorAssignment_sectorId_userId_key" ON "MissionSectorAssignment"("sectorId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "MissionSector" ADD CONSTRAINT "MissionSector_missionId_fkey" FOREIGN KEY ("missionId") REFERENCES "VolunteerMission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MissionSectorAssignment" ADD CONSTRAINT "MissionSectorAssignment_sectorId_fkey" FOREIGN KEY ("sectorId") REFERENCES "MissionSector"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MissionSectorAssignment" ADD CONSTRAINT "MissionSectorAssignment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "MissionCheckIn" ADD COLUMN     "accuracy" DOUBLE PRECISION,
+ADD COLUMN     "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Check-ins anteriores foram lidos no momento do envio
+UPDATE "MissionCheckIn" SET "recordedAt" = "createdAt";
+
+-- CreateIndex
+CREATE INDEX "MissionCheckIn_missionId_recordedAt_idx" ON "MissionCheckIn"("missionId", "recordedAt");
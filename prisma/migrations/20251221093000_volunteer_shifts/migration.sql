@@ -0,0 +1,89 @@
+-- CreateEnum
+CREATE TYPE "VolunteerSkill" AS ENUM ('PRIMEIROS_SOCORROS', 'OPERADOR_DRONE', 'CONDUTOR_4X4', 'CINOTECNIA', 'COMUNICACOES_RADIO', 'NAVEGACAO');
+
+-- CreateTable
+CREATE TABLE "VolunteerProfile" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "province" TEXT,
+    "municipality" TEXT,
+    "skills" "VolunteerSkill"[],
+    "notes" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VolunteerProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "VolunteerAvailability" (
+    "id" TEXT NOT NULL,
+    "profileId" TEXT NOT NULL,
+    "dayOfWeek" INTEGER NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+
+    CONSTRAINT "VolunteerAvailability_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MissionShift" (
+    "id" TEXT NOT NULL,
+    "missionId" TEXT NOT NULL,
+    "title" TEXT,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "requiredHeadcount" INTEGER NOT NULL,
+    "requiredSkills" "VolunteerSkill"[],
+    "notes" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MissionShift_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShiftSignup" (
+    "id" TEXT NOT NULL,
+    "shiftId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "reminderSentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShiftSignup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VolunteerProfile_userId_key" ON "VolunteerProfile"("userId");
+
+-- CreateIndex
+CREATE INDEX "VolunteerProfile_province_active_idx" ON "VolunteerProfile"("province", "active");
+
+-- CreateIndex
+CREATE INDEX "VolunteerAvailability_profileId_idx" ON "VolunteerAvailability"("profileId");
+
+-- CreateIndex
+CREATE INDEX "MissionShift_missionId_startsAt_idx" ON "MissionShift"("missionId", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "ShiftSignup_userId_idx" ON "ShiftSignup"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShiftSignup_shiftId_userId_key" ON "ShiftSignup"("shiftId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "VolunteerProfile" ADD CONSTRAINT "VolunteerProfile_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VolunteerAvailability" ADD CONSTRAINT "VolunteerAvailability_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "VolunteerProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MissionShift" ADD CONSTRAINT "MissionShift_missionId_fkey" FOREIGN KEY ("missionId") REFERENCES "VolunteerMission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftSignup" ADD CONSTRAINT "ShiftSignup_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "MissionShift"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftSignup" ADD CONSTRAINT "ShiftSignup_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,65 @@
+-- CreateTable
+CREATE TABLE "MissionDebrief" (
+    "id" TEXT NOT NULL,
+    "missionId" TEXT NOT NULL,
+    "sectorId" TEXT,
+    "sectorCode" TEXT,
+    "authorId" TEXT NOT NULL,
+    "summary" TEXT NOT NULL,
+    "uncoveredAreas" TEXT,
+    "uncoveredSectorCodes" TEXT[],
+    "recommendations" TEXT,
+    "evidenceUrls" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MissionDebrief_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DebriefFinding" (
+    "id" TEXT NOT NULL,
+    "debriefId" TEXT NOT NULL,
+    "missingPersonId" TEXT,
+    "description" TEXT NOT NULL,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "foundAt" TIMESTAMP(3),
+    "evidenceUrls" TEXT[],
+    "sightingId" TEXT,
+    "convertedById" TEXT,
+    "convertedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DebriefFinding_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MissionDebrief_missionId_createdAt_idx" ON "MissionDebrief"("missionId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DebriefFinding_sightingId_key" ON "DebriefFinding"("sightingId");
+
+-- CreateIndex
+CREATE INDEX "DebriefFinding_debriefId_idx" ON "DebriefFinding"("debriefId");
+
+-- CreateIndex
+CREATE INDEX "DebriefFinding_missingPersonId_idx" ON "DebriefFinding"("missingPersonId");
+
+-- AddForeignKey
+ALTER TABLE "MissionDebrief" ADD CONSTRAINT "MissionDebrief_missionId_fkey" FOREIGN KEY ("missionId") REFERENCES "VolunteerMission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MissionDebrief" ADD CONSTRAINT "MissionDebrief_sectorId_fkey" FOREIGN KEY ("sectorId") REFERENCES "MissionSector"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MissionDebrief" ADD CONSTRAINT "MissionDebrief_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DebriefFinding" ADD CONSTRAINT "DebriefFinding_debriefId_fkey" FOREIGN KEY ("debriefId") REFERENCES "MissionDebrief"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DebriefFinding" ADD CONSTRAINT "DebriefFinding_missingPersonId_fkey" FOREIGN KEY ("missingPersonId") REFERENCES "MissingPerson"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DebriefFinding" ADD CONSTRAINT "DebriefFinding_sightingId_fkey" FOREIGN KEY ("sightingId") REFERENCES "Sighting"("id") ON DELETE SET NULL ON UPDATE CASCADE;
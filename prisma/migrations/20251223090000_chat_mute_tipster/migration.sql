@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ChatMute" ADD COLUMN     "tipsterNumber" INTEGER;
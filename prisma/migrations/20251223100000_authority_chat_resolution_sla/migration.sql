@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "AuthorityChat" ADD COLUMN     "resolutionOverdueAt" TIMESTAMP(3);
+
+-- Conversas em aberto anteriores ao SLA de resolução ficam como já avisadas
+UPDATE "AuthorityChat" SET "resolutionOverdueAt" = CURRENT_TIMESTAMP WHERE "status" IN ('ABERTO', 'EM_ATENDIMENTO');
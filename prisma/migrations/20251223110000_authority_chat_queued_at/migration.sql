@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "AuthorityChat" ADD COLUMN     "queuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Conversas existentes entraram na fila quando foram criadas
+UPDATE "AuthorityChat" SET "queuedAt" = "createdAt";
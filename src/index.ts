@@ -10,6 +10,12 @@ import rateLimit from 'express-rate-limit';
 import { Server } from 'socket.io';
 import { fileURLToPath } from 'node:url';
 import { router as apiRouter } from './routes/index.js';
+import { socketAuth } from './middleware/auth.js';
+import { prisma } from './lib/prisma.js';
+import { canViewCase } from './lib/case-access.js';
+import { chatThreadRoom, getThreadAccess, markThreadRead, sendCaseChatMessage } from './services/chat-service.js';
+import { markAuthorityChatRead, startAuthorityChatSlaWorker } from './services/authority-chat-service.js';
+import { canViewMissionTracks, getMissionAccess, missionRoom } from './services/mission-service.js';
 
 dotenv.config();
 
@@ -22,11 +28,16 @@ if (!process.env.DATABASE_URL) {
 const app = express();
 const PORT = process.env.PORT ? Number(process.env.PORT) : 3000;
 const uploadsPath = process.env.FILE_STORAGE_PATH ?? path.resolve('uploads');
+// Anexos dos chats: fora do mount estático /uploads, servidos só pela rota autenticada
+const privateUploadsPath = process.env.PRIVATE_FILE_STORAGE_PATH ?? path.resolve('uploads-private');
 const allowedOrigins = (process.env.ALLOWED_ORIGINS ?? '').split(',').map((origin) => origin.trim()).filter(Boolean);
 
 if (!fs.existsSync(uploadsPath)) {
   fs.mkdirSync(uploadsPath, { recursive: true });
 }
+if (!fs.existsSync(privateUploadsPath)) {
+  fs.mkdirSync(privateUploadsPath, { recursive: true });
+}
 
 app.use(helmet());
 app.use(
@@ -103,66 +114,69 @@ const io = new Server(server, {
   transports: ['websocket', 'polling'], // Permitir fallback para polling
 });
 
+// Autenticação JWT no handshake: userId e role vêm do token, nunca do cliente
+io.use(socketAuth());
+
 // Socket.IO para notificações e chat
 io.on('connection', (socket) => {
-  console.log(`cliente conectado ${socket.id}`);
-  
-  // Join room para notificações do usuário
-  socket.on('join-user-room', (data: { userId: string; userRole?: string }) => {
-    const userId = typeof data === 'string' ? data : data.userId;
-    const userRole = typeof data === 'object' ? data.userRole : undefined;
-    (socket as any).userId = userId; // Armazenar userId no socket para verificação posterior
-    socket.join(`user:${userId}`);
-    
-    // Verificar se entrou na sala corretamente
-    const rooms = Array.from(socket.rooms);
-    const inRoom = rooms.includes(`user:${userId}`);
-    
-    // Também fazer join na sala da role se fornecida
-    if (userRole) {
-      socket.join(`role:${userRole}`);
-      console.log(`[SOCKET] Usuário ${userId} entrou na sala role:${userRole}`);
+  const userId: string = socket.data.userId;
+  const userRole: string = socket.data.userRole;
+  console.log(`cliente conectado ${socket.id} (usuário ${userId})`);
+
+  // Salas do usuário e da role derivadas do token
+  socket.join(`user:${userId}`);
+  socket.join(`role:${userRole}`);
+
+  // Entregar notificações que chegaram enquanto o usuário estava offline
+  deliverPendingNotifications(socket, userId);
+
+  // Mantido por compatibilidade: os dados enviados pelo cliente são ignorados
+  socket.on('join-user-room', (data?: { userId?: string } | string) => {
+    const requestedUserId = typeof data === 'string' ? data : data?.userId;
+    if (requestedUserId && requestedUserId !== userId) {
+      console.warn(`[SOCKET] Usuário ${userId} tentou entrar na sala user:${requestedUserId}`);
     }
-    
-    console.log(`[SOCKET] Usuário ${userId} (socket ${socket.id}) conectado`);
-    console.log(`[SOCKET] Entrou na sala user:${userId}: ${inRoom}`);
-    console.log(`[SOCKET] Salas do socket: ${rooms.join(', ')}`);
-    
-    // Verificar quantos sockets estão na sala deste usuário
-    const room = io.sockets.adapter.rooms.get(`user:${userId}`);
-    const socketCount = room ? room.size : 0;
-    console.log(`[SOCKET] Total de sockets na sala user:${userId}: ${socketCount}`);
+    socket.join(`user:${userId}`);
+    socket.join(`role:${userRole}`);
   });
 
-  // Join room para chat de caso
-  socket.on('join-case-room', async (data: { caseId: string; userId: string; userName: string }) => {
-    socket.join(`case:${data.caseId}`);
-    
-    // Notificar outros usuários no chat que alguém entrou
-    socket.to(`case:${data.caseId}`).emit('user-joined-chat', {
-      caseId: data.caseId,
-      userId: data.userId,
-      userName: data.userName,
-      message: `${data.userName} entrou no chat`,
-    });
-
-    // Notificar o reporter do caso se ele não estiver no chat
+  // Join room para chat de caso (apenas casos que o usuário pode ver)
+  socket.on('join-case-room', async (data: { caseId: string }, ack?: (response: { ok: boolean; message?: string }) => void) => {
     try {
-      const { prisma } = await import('./lib/prisma.js');
-      const caseData = await prisma.missingPerson.findUnique({
-        where: { id: data.caseId },
-        select: { reporterId: true },
+      const caseId = data?.caseId;
+      const caseData = caseId
+        ? await prisma.missingPerson.findUnique({
+            where: { id: caseId },
+            select: { reporterId: true, approved: true, isDeleted: true },
+          })
+        : null;
+
+      if (!caseData || !canViewCase(caseData, userId, userRole)) {
+        ack?.({ ok: false, message: 'Acesso negado ao chat deste caso' });
+        return;
+      }
+
+      socket.join(`case:${caseId}`);
+      ack?.({ ok: true });
+
+      // Sala pública: só um sinal de presença, sem identidade (quem entra pode depois escrever como anónimo)
+      socket.to(`case:${caseId}`).emit('user-joined-chat', {
+        caseId,
+        participants: io.sockets.adapter.rooms.get(`case:${caseId}`)?.size ?? 1,
+        message: 'Alguém entrou no chat',
       });
-      
-      if (caseData?.reporterId && caseData.reporterId !== data.userId) {
+
+      // Notificar o reporter do caso se ele não estiver no chat
+      if (caseData.reporterId !== userId) {
         io.to(`user:${caseData.reporterId}`).emit('notification', {
           type: 'chat_user_joined',
           title: 'Alguém entrou no chat do seu caso',
-          message: `${data.userName} entrou no chat do caso que você publicou.`,
+          message: 'Alguém entrou no chat do caso que você publicou.',
         });
       }
     } catch (error) {
-      console.error('Erro ao notificar reporter:', error);
+      console.error('[SOCKET] Erro ao entrar no chat do caso:', error);
+      ack?.({ ok: false, message: 'Erro ao entrar no chat' });
     }
   });
 
@@ -171,31 +185,155 @@ io.on('connection', (socket) => {
     socket.leave(`case:${caseId}`);
   });
 
-  // Chat messages (Socket.IO para broadcast em tempo real)
-  // Nota: A persistência é feita via API REST em /chat/:caseId/messages
-  socket.on('chat-message', async (data: { caseId: string; message: string; senderId: string; senderName: string }) => {
-    // Retransmitir para todos no chat do caso
-    io.to(`case:${data.caseId}`).emit('new-message', {
-      ...data,
-      createdAt: new Date().toISOString(),
-    });
+  // Join room de um thread privado (família/autoridades), com verificação de acesso
+  socket.on('join-thread-room', async (data: { threadId: string }, ack?: (response: { ok: boolean; message?: string }) => void) => {
+    try {
+      const thread = data?.threadId
+        ? await prisma.chatThread.findUnique({
+            where: { id: data.threadId },
+            include: { missingPerson: { select: { reporterId: true, approved: true, isDeleted: true } } },
+          })
+        : null;
+      const access = thread ? await getThreadAccess(thread, thread.missingPerson, { userId, role: userRole }) : null;
+
+      if (!thread || !access?.canRead) {
+        ack?.({ ok: false, message: 'Acesso negado a esta conversa' });
+        return;
+      }
+
+      socket.join(chatThreadRoom(thread));
+      ack?.({ ok: true });
+    } catch (error) {
+      console.error('[SOCKET] Erro ao entrar na conversa:', error);
+      ack?.({ ok: false, message: 'Erro ao entrar na conversa' });
+    }
   });
 
+  socket.on('leave-thread-room', (threadId: string) => {
+    socket.leave(`thread:${threadId}`);
+  });
+
+  // Posições em tempo real dos voluntários de uma missão (participantes e coordenação)
+  socket.on('join-mission-room', async (data: { missionId: string }, ack?: (response: { ok: boolean; message?: string }) => void) => {
+    try {
+      const access = data?.missionId ? await getMissionAccess(data.missionId, { userId, role: userRole }) : null;
+
+      if (!access || !canViewMissionTracks(access)) {
+        ack?.({ ok: false, message: 'Acesso negado a esta missão' });
+        return;
+      }
+
+      socket.join(missionRoom(data.missionId));
+      ack?.({ ok: true });
+    } catch (error) {
+      console.error('[SOCKET] Erro ao entrar na missão:', error);
+      ack?.({ ok: false, message: 'Erro ao entrar na missão' });
+    }
+  });
+
+  socket.on('leave-mission-room', (missionId: string) => {
+    socket.leave(missionRoom(missionId));
+  });
+
+  // Chat messages: mesmo caminho do POST /chat/:caseId/messages (persistência, rate limit e moderação)
+  socket.on(
+    'chat-message',
+    async (
+      data: { caseId: string; threadId?: string; message: string; anonymous?: boolean; attachmentIds?: string[] },
+      ack?: (response: { ok: boolean; id?: string; createdAt?: string; message?: string }) => void,
+    ) => {
+      try {
+        // O acesso ao thread (público ou privado) é verificado em sendCaseChatMessage
+        const result = await sendCaseChatMessage(data?.caseId, userId, data?.message, {
+          anonymous: data?.anonymous === true,
+          threadId: data?.threadId,
+          attachmentIds: data?.attachmentIds,
+        });
+        if (!result.ok) {
+          ack?.({ ok: false, message: result.error });
+          return;
+        }
+
+        ack?.({ ok: true, id: result.message.id, createdAt: result.message.createdAt });
+      } catch (error) {
+        console.error('[SOCKET] Erro ao enviar mensagem no chat:', error);
+        ack?.({ ok: false, message: 'Erro ao enviar mensagem' });
+      }
+    },
+  );
+
+  // Marcar como lido pelo socket: { threadId } no chat do caso ou { chatId } no chat com autoridade
+  socket.on(
+    'mark-read',
+    async (
+      data: { threadId?: string; chatId?: string; messageId?: string },
+      ack?: (response: { ok: boolean; lastReadMessageId?: string | null; message?: string }) => void,
+    ) => {
+      try {
+        if (data?.threadId) {
+          const thread = await prisma.chatThread.findUnique({
+            where: { id: data.threadId },
+            include: { missingPerson: { select: { reporterId: true, approved: true, isDeleted: true } } },
+          });
+          const access = thread ? await getThreadAccess(thread, thread.missingPerson, { userId, role: userRole }) : null;
+          if (!thread || !access?.canRead) {
+            ack?.({ ok: false, message: 'Acesso negado a esta conversa' });
+            return;
+          }
+
+          const marker = await markThreadRead(thread, userId, data.messageId);
+          ack?.({ ok: true, lastReadMessageId: marker?.lastReadMessageId ?? null });
+          return;
+        }
+
+        const chat = data?.chatId
+          ? await prisma.authorityChat.findUnique({
+              where: { id: data.chatId },
+              select: { id: true, userId: true, authorityId: true },
+            })
+          : null;
+        if (!chat || (chat.userId !== userId && chat.authorityId !== userId)) {
+          ack?.({ ok: false, message: 'Acesso negado' });
+          return;
+        }
+
+        const marker = await markAuthorityChatRead(chat, userId, data.messageId);
+        ack?.({ ok: true, lastReadMessageId: marker?.lastReadMessageId ?? null });
+      } catch (error) {
+        console.error('[SOCKET] Erro ao marcar como lido:', error);
+        ack?.({ ok: false, message: 'Erro ao marcar como lido' });
+      }
+    },
+  );
+
   socket.on('disconnect', () => {
     console.log(`cliente desconectado ${socket.id}`);
   });
 });
 
-import { setIO } from './lib/socket.js';
+import { deliverPendingNotifications, setIO } from './lib/socket.js';
 
 // Configurar Socket.IO
 setIO(io);
 
+import { startAlertDeliveryWorker } from './services/alert-delivery-service.js';
+import { startShiftReminderWorker } from './services/shift-service.js';
+
+// Reenvio de alertas com falha (backoff exponencial)
+startAlertDeliveryWorker();
+
+// Escalonamento de conversas com autoridades sem resposta ou por resolver dentro do SLA
+startAuthorityChatSlaWorker();
+
+// Lembretes aos voluntários antes do início dos turnos
+startShiftReminderWorker();
+
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 app.set('socketio', io);
 app.set('uploadsPath', uploadsPath);
+app.set('privateUploadsPath', privateUploadsPath);
 
 server.listen(PORT, () => {
   console.log(`API BaseDeDadosPessoasDesaparecidas em http://localhost:${PORT}`);
@@ -0,0 +1,20 @@
+type CaseVisibility = {
+  reporterId: string;
+  approved: boolean;
+  isDeleted?: boolean;
+};
+
+export function isModeratorRole(role?: string | null) {
+  return role === 'MODERADOR' || role === 'ADMIN';
+}
+
+// Mesma regra do GET /missing-persons/:id: moderadores veem tudo, os demais só casos aprovados ou os seus
+export function canViewCase(caseData: CaseVisibility, userId?: string | null, userRole?: string | null) {
+  if (isModeratorRole(userRole)) {
+    return true;
+  }
+  if (caseData.isDeleted) {
+    return false;
+  }
+  return caseData.approved || (Boolean(userId) && caseData.reporterId === userId);
+}
@@ -0,0 +1,398 @@
+import type { Coordinates } from './geo.js';
+
+export type GeoPoint = Coordinates & { time?: Date | null };
+
+export type GeoWaypoint = GeoPoint & { name: string; description?: string | null };
+
+export type GeoTrack = { name: string; description?: string | null; points: GeoPoint[] };
+
+// Anel exterior em [longitude, latitude], como no GeoJSON
+export type GeoArea = { name: string; description?: string | null; ring: [number, number][] };
+
+// Documento intermédio comum aos três formatos de exportação
+export type GeoDocument = {
+  name: string;
+  waypoints: GeoWaypoint[];
+  tracks: GeoTrack[];
+  areas: GeoArea[];
+};
+
+export const GEO_EXPORT_FORMATS = {
+  gpx: { contentType: 'application/gpx+xml', extension: 'gpx' },
+  kml: { contentType: 'application/vnd.google-earth.kml+xml', extension: 'kml' },
+  geojson: { contentType: 'application/geo+json', extension: 'geojson' },
+} as const;
+
+export type GeoExportFormat = keyof typeof GEO_EXPORT_FORMATS;
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function unescapeXml(value: string) {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function xmlTag(name: string, value?: string | null) {
+  return value ? `<${name}>${escapeXml(value)}</${name}>` : '';
+}
+
+function gpxPoint(tag: string, point: GeoPoint, inner = '') {
+  const time = point.time ? `<time>${point.time.toISOString()}</time>` : '';
+  return `<${tag} lat="${point.latitude}" lon="${point.longitude}">${time}${inner}</${tag}>`;
+}
+
+// Áreas vão como rotas fechadas (GPX não tem polígonos)
+function toGpx(doc: GeoDocument) {
+  const waypoints = doc.waypoints.map((waypoint) =>
+    gpxPoint('wpt', waypoint, xmlTag('name', waypoint.name) + xmlTag('desc', waypoint.description)),
+  );
+  const areas = doc.areas.map(
+    (area) =>
+      `<rte>${xmlTag('name', area.name)}${xmlTag('desc', area.description)}${area.ring
+        .map(([longitude, latitude]) => gpxPoint('rtept', { latitude, longitude }))
+        .join('')}</rte>`,
+  );
+  const tracks = doc.tracks.map(
+    (track) =>
+      `<trk>${xmlTag('name', track.name)}${xmlTag('desc', track.description)}<trkseg>${track.points
+        .map((point) => gpxPoint('trkpt', point))
+        .join('')}</trkseg></trk>`,
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Base de Dados de Pessoas Desaparecidas" xmlns="http://www.topografix.com/GPX/1/1">',
+    `<metadata>${xmlTag('name', doc.name)}</metadata>`,
+    ...waypoints,
+    ...areas,
+    ...tracks,
+    '</gpx>',
+  ].join('\n');
+}
+
+function kmlCoordinates(points: Array<[number, number]>) {
+  return points.map(([longitude, latitude]) => `${longitude},${latitude}`).join(' ');
+}
+
+function toKml(doc: GeoDocument) {
+  const placemark = (name: string, description: string | null | undefined, geometry: string) =>
+    `<Placemark>${xmlTag('name', name)}${xmlTag('description', description)}${geometry}</Placemark>`;
+
+  const waypoints = doc.waypoints.map((waypoint) =>
+    placemark(
+      waypoint.name,
+      waypoint.description,
+      `${waypoint.time ? `<TimeStamp><when>${waypoint.time.toISOString()}</when></TimeStamp>` : ''}<Point><coordinates>${waypoint.longitude},${waypoint.latitude}</coordinates></Point>`,
+    ),
+  );
+  const areas = doc.areas.map((area) =>
+    placemark(
+      area.name,
+      area.description,
+      `<Polygon><outerBoundaryIs><LinearRing><coordinates>${kmlCoordinates(area.ring)}</coordinates></LinearRing></outerBoundaryIs></Polygon>`,
+    ),
+  );
+  const tracks = doc.tracks.map((track) =>
+    placemark(
+      track.name,
+      track.description,
+      `<LineString><coordinates>${kmlCoordinates(track.points.map((point) => [point.longitude, point.latitude]))}</coordinates></LineString>`,
+    ),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    `<Document>${xmlTag('name', doc.name)}`,
+    ...waypoints,
+    ...areas,
+    ...tracks,
+    '</Document>',
+    '</kml>',
+  ].join('\n');
+}
+
+function toGeoJSON(doc: GeoDocument) {
+  const features = [
+    ...doc.waypoints.map((waypoint) => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [waypoint.longitude, waypoint.latitude] },
+      properties: {
+        kind: 'waypoint',
+        name: waypoint.name,
+        description: waypoint.description ?? null,
+        time: waypoint.time?.toISOString() ?? null,
+      },
+    })),
+    ...doc.areas.map((area) => ({
+      type: 'Feature',
+      geometry: { type: 'Polygon', coordinates: [area.ring] },
+      properties: { kind: 'area', name: area.name, description: area.description ?? null },
+    })),
+    ...doc.tracks.map((track) => ({
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: track.points.map((point) => [point.longitude, point.latitude]),
+      },
+      properties: {
+        kind: 'track',
+        name: track.name,
+        description: track.description ?? null,
+        times: track.points.map((point) => point.time?.toISOString() ?? null),
+      },
+    })),
+  ];
+
+  return JSON.stringify({ type: 'FeatureCollection', name: doc.name, features });
+}
+
+export function renderGeoDocument(doc: GeoDocument, format: GeoExportFormat) {
+  if (format === 'gpx') return toGpx(doc);
+  if (format === 'kml') return toKml(doc);
+  return toGeoJSON(doc);
+}
+
+// Conteúdo, tipo e nome do ficheiro para download
+export function renderGeoFile(doc: GeoDocument, format: GeoExportFormat, baseName: string) {
+  const { contentType, extension } = GEO_EXPORT_FORMATS[format];
+  return { body: renderGeoDocument(doc, format), contentType, filename: `${baseName}.${extension}` };
+}
+
+// Tipos de checkpoint: ponto, rota (linha) ou área (polígono fechado)
+export type ImportedFeatureKind = 'PONTO' | 'ROTA' | 'AREA';
+
+export type ImportedFeature = {
+  kind: ImportedFeatureKind;
+  name: string | null;
+  coordinates: [number, number][];
+};
+
+function isValidPosition(position: unknown): position is [number, number] {
+  return (
+    Array.isArray(position) &&
+    position.length >= 2 &&
+    Number.isFinite(position[0]) &&
+    Number.isFinite(position[1]) &&
+    Math.abs(position[0]) <= 180 &&
+    Math.abs(position[1]) <= 90
+  );
+}
+
+function isClosed(coordinates: [number, number][]) {
+  const first = coordinates[0];
+  const last = coordinates[coordinates.length - 1];
+  return coordinates.length >= 4 && first[0] === last[0] && first[1] === last[1];
+}
+
+function readAttribute(tag: string, attribute: string) {
+  const match = tag.match(new RegExp(`\\b${attribute}\\s*=\\s*["']([^"']+)["']`, 'i'));
+  return match ? Number(match[1]) : NaN;
+}
+
+const MAX_GPX_DEPTH = 32;
+
+type XmlToken = { type: 'open' | 'close'; name: string; raw: string; selfClosing: boolean } | { type: 'text'; value: string };
+
+/**
+ * Percorre o XML uma única vez (indexOf sempre para a frente), devolvendo etiquetas e texto.
+ * Evita expressões regulares com retrocesso, que ficam quadráticas com etiquetas por fechar.
+ */
+function* xmlTokens(xml: string): Generator<XmlToken> {
+  let position = 0;
+  while (position < xml.length) {
+    const open = xml.indexOf('<', position);
+    if (open === -1) {
+      yield { type: 'text', value: unescapeXml(xml.slice(position)) };
+      return;
+    }
+    if (open > position) {
+      yield { type: 'text', value: unescapeXml(xml.slice(position, open)) };
+    }
+
+    if (xml.startsWith('<![CDATA[', open)) {
+      const close = xml.indexOf(']]>', open + 9);
+      if (close === -1) return;
+      yield { type: 'text', value: xml.slice(open + 9, close) };
+      position = close + 3;
+      continue;
+    }
+    const terminator = xml.startsWith('<!--', open) ? '-->' : xml.startsWith('<?', open) ? '?>' : xml.startsWith('<!', open) ? '>' : null;
+    if (terminator) {
+      const close = xml.indexOf(terminator, open + 2);
+      if (close === -1) return;
+      position = close + terminator.length;
+      continue;
+    }
+
+    const close = xml.indexOf('>', open + 1);
+    if (close === -1) return;
+    const raw = xml.slice(open + 1, close);
+    const isClosing = raw.startsWith('/');
+    const name = (isClosing ? raw.slice(1) : raw).split(/[\s/]/, 1)[0].toLowerCase();
+    // Ignorar prefixos de namespace (ex: <gpx:trkpt>)
+    const localName = name.slice(name.indexOf(':') + 1);
+    yield { type: isClosing ? 'close' : 'open', name: localName, raw, selfClosing: raw.endsWith('/') };
+    position = close + 1;
+  }
+}
+
+function readGpxPoint(token: { name: string; raw: string }): [number, number] {
+  const position: [number, number] = [readAttribute(token.raw, 'lon'), readAttribute(token.raw, 'lat')];
+  if (!isValidPosition(position)) {
+    throw new Error(`Coordenadas inválidas em <${token.name}>`);
+  }
+  return position;
+}
+
+// Leitor simples de GPX 1.0/1.1: waypoints, rotas (fechadas = áreas) e segmentos de trajeto
+export function parseGpx(xml: string): ImportedFeature[] {
+  if (!/<gpx[\s>]/i.test(xml)) {
+    throw new Error('Ficheiro GPX inválido');
+  }
+
+  const features: ImportedFeature[] = [];
+  const stack: string[] = [];
+  let waypoint: ImportedFeature | null = null;
+  let route: ImportedFeature | null = null;
+  let trackName: string | null = null;
+  let segment: [number, number][] | null = null;
+  let nameText: string | null = null;
+
+  for (const token of xmlTokens(xml)) {
+    if (token.type === 'text') {
+      if (nameText !== null) nameText += token.value;
+      continue;
+    }
+
+    if (token.type === 'open') {
+      const parent = stack[stack.length - 1];
+      if (token.name === 'wpt') {
+        waypoint = { kind: 'PONTO', name: null, coordinates: [readGpxPoint(token)] };
+      } else if (token.name === 'rte') {
+        route = { kind: 'ROTA', name: null, coordinates: [] };
+      } else if (token.name === 'rtept' && route) {
+        route.coordinates.push(readGpxPoint(token));
+      } else if (token.name === 'trk') {
+        trackName = null;
+      } else if (token.name === 'trkseg') {
+        segment = [];
+      } else if (token.name === 'trkpt' && segment) {
+        segment.push(readGpxPoint(token));
+      } else if (token.name === 'name' && ['wpt', 'rte', 'trk'].includes(parent)) {
+        nameText = '';
+      }
+
+      if (!token.selfClosing) {
+        // GPX tem poucos níveis; limitar a profundidade mantém o fecho de etiquetas linear
+        if (stack.length >= MAX_GPX_DEPTH) {
+          throw new Error('Ficheiro GPX inválido');
+        }
+        stack.push(token.name);
+        continue;
+      }
+    } else {
+      // Fecha até à etiqueta correspondente; etiquetas de fecho sem abertura são ignoradas
+      const index = stack.lastIndexOf(token.name);
+      if (index === -1) continue;
+      stack.length = index;
+    }
+
+    const parent = stack[stack.length - 1];
+    if (token.name === 'name' && nameText !== null) {
+      const name = nameText.trim() || null;
+      if (parent === 'wpt' && waypoint) waypoint.name = name;
+      if (parent === 'rte' && route) route.name = name;
+      if (parent === 'trk') trackName = name;
+      nameText = null;
+    } else if (token.name === 'wpt' && waypoint) {
+      features.push(waypoint);
+      waypoint = null;
+    } else if (token.name === 'rte' && route) {
+      if (route.coordinates.length >= 2) {
+        features.push({ ...route, kind: isClosed(route.coordinates) ? 'AREA' : 'ROTA' });
+      }
+      route = null;
+    } else if (token.name === 'trkseg' && segment) {
+      if (segment.length >= 2) {
+        features.push({ kind: 'ROTA', name: trackName, coordinates: segment });
+      }
+      segment = null;
+    }
+  }
+
+  return features;
+}
+
+function geometryToFeatures(geometry: any, name: string | null): ImportedFeature[] {
+  if (!geometry || typeof geometry !== 'object') {
+    return [];
+  }
+
+  const positions = (value: unknown): [number, number][] => {
+    if (!Array.isArray(value) || !value.every(isValidPosition)) {
+      throw new Error(`Coordenadas inválidas em ${geometry.type}`);
+    }
+    return value.map(([longitude, latitude]) => [longitude, latitude]);
+  };
+
+  switch (geometry.type) {
+    case 'Point':
+      return [{ kind: 'PONTO', name, coordinates: positions([geometry.coordinates]) }];
+    case 'MultiPoint':
+      return positions(geometry.coordinates).map((position) => ({ kind: 'PONTO' as const, name, coordinates: [position] }));
+    case 'LineString':
+      return [{ kind: 'ROTA', name, coordinates: positions(geometry.coordinates) }];
+    case 'MultiLineString':
+      return (geometry.coordinates ?? []).map((line: unknown) => ({ kind: 'ROTA' as const, name, coordinates: positions(line) }));
+    case 'Polygon':
+      return [{ kind: 'AREA', name, coordinates: positions(geometry.coordinates?.[0]) }];
+    case 'MultiPolygon':
+      return (geometry.coordinates ?? []).map((polygon: any) => ({
+        kind: 'AREA' as const,
+        name,
+        coordinates: positions(polygon?.[0]),
+      }));
+    case 'GeometryCollection':
+      return (geometry.geometries ?? []).flatMap((child: unknown) => geometryToFeatures(child, name));
+    default:
+      throw new Error(`Geometria não suportada: ${geometry.type}`);
+  }
+}
+
+// Rotas precisam de 2 pontos e áreas de um anel fechado com pelo menos 4
+export function isValidImportedFeature(feature: ImportedFeature) {
+  if (feature.kind === 'PONTO') return feature.coordinates.length === 1;
+  if (feature.kind === 'ROTA') return feature.coordinates.length >= 2;
+  return isClosed(feature.coordinates);
+}
+
+// Aceita FeatureCollection, Feature ou uma geometria solta (texto ou objeto já interpretado)
+export function parseGeoJSON(input: unknown): ImportedFeature[] {
+  const data = typeof input === 'string' ? JSON.parse(input) : input;
+  if (!data || typeof data !== 'object') {
+    throw new Error('GeoJSON inválido');
+  }
+
+  const featureName = (feature: any) =>
+    typeof feature?.properties?.name === 'string' ? feature.properties.name : null;
+
+  if (data.type === 'FeatureCollection') {
+    return (data.features ?? []).flatMap((feature: any) => geometryToFeatures(feature?.geometry, featureName(feature)));
+  }
+  if (data.type === 'Feature') {
+    return geometryToFeatures(data.geometry, featureName(data));
+  }
+  return geometryToFeatures(data, null);
+}
@@ -0,0 +1,66 @@
+const EARTH_RADIUS_KM = 6371;
+
+export type Coordinates = {
+  latitude: number;
+  longitude: number;
+};
+
+type PositionSource = {
+  lastSignalLat?: number | null;
+  lastSignalLng?: number | null;
+  sightings?: Array<{
+    latitude?: number | null;
+    longitude?: number | null;
+    status?: string;
+    createdAt?: Date;
+  }>;
+};
+
+function toRadians(value: number) {
+  return (value * Math.PI) / 180;
+}
+
+// Distância em km entre dois pontos (fórmula de Haversine)
+export function haversineKm(from: Coordinates, to: Coordinates) {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// Retângulo que contém o círculo de raio radiusKm, usado como pré-filtro nas queries
+export function boundingBox(center: Coordinates, radiusKm: number) {
+  const latDelta = radiusKm / 111.32;
+  const cosLat = Math.cos(toRadians(center.latitude));
+  const lngDelta = cosLat > 0.000001 ? radiusKm / (111.32 * cosLat) : 180;
+
+  return {
+    minLat: Math.max(-90, center.latitude - latDelta),
+    maxLat: Math.min(90, center.latitude + latDelta),
+    minLng: Math.max(-180, center.longitude - lngDelta),
+    maxLng: Math.min(180, center.longitude + lngDelta),
+  };
+}
+
+/**
+ * Última posição conhecida de um caso: o avistamento validado mais recente com coordenadas
+ * ou, na falta dele, o último sinal registado no próprio caso.
+ */
+export function resolveLastKnownPosition(person: PositionSource): Coordinates | null {
+  const validated = (person.sightings ?? [])
+    .filter((s) => s.status === 'VALIDADO' && s.latitude != null && s.longitude != null)
+    .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+
+  if (validated.length > 0) {
+    return { latitude: validated[0].latitude!, longitude: validated[0].longitude! };
+  }
+
+  if (person.lastSignalLat != null && person.lastSignalLng != null) {
+    return { latitude: person.lastSignalLat, longitude: person.lastSignalLng };
+  }
+
+  return null;
+}
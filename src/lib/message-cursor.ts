@@ -0,0 +1,53 @@
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+export const MAX_MESSAGE_PAGE_SIZE = 100;
+
+export type MessageCursor = { id: string; createdAt: Date };
+
+export type MessagePageDirection = 'before' | 'after';
+
+// Ordenação estável (createdAt, id): mensagens criadas no mesmo milissegundo não se repetem nem se perdem
+export function messagePageQuery(cursor: MessageCursor | null, direction: MessagePageDirection, limit: number) {
+  const older = direction === 'before';
+  const where = cursor
+    ? {
+        OR: [
+          { createdAt: older ? { lt: cursor.createdAt } : { gt: cursor.createdAt } },
+          { createdAt: cursor.createdAt, id: older ? { lt: cursor.id } : { gt: cursor.id } },
+        ],
+      }
+    : {};
+  const order = older ? ('desc' as const) : ('asc' as const);
+
+  return {
+    where,
+    orderBy: [{ createdAt: order }, { id: order }],
+    take: limit + 1,
+  };
+}
+
+/**
+ * Converte o resultado de messagePageQuery numa página em ordem cronológica.
+ * Sem cursor a página é a mais recente (direction "before"); hasMore indica se há mais na mesma direção.
+ */
+export function toMessagePage<T extends { id: string }>(rows: T[], direction: MessagePageDirection, limit: number) {
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+  const items = direction === 'before' ? page.reverse() : page;
+
+  return {
+    items,
+    pagination: {
+      limit,
+      direction,
+      hasMore,
+      // Cursores para pedir mensagens anteriores (before) ou posteriores (after) a esta página
+      before: items[0]?.id ?? null,
+      after: items[items.length - 1]?.id ?? null,
+    },
+  };
+}
+
+export function parseMessagePageSize(value: unknown) {
+  const limit = value ? parseInt(String(value), 10) : DEFAULT_MESSAGE_PAGE_SIZE;
+  return Math.min(Math.max(limit, 1), MAX_MESSAGE_PAGE_SIZE);
+}
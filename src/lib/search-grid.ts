@@ -0,0 +1,252 @@
+import { haversineKm, type Coordinates } from './geo.js';
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+export const MIN_SECTOR_SIZE_METERS = 50;
+export const MAX_SECTOR_SIZE_METERS = 5000;
+export const MAX_SECTORS_PER_MISSION = 400;
+
+// Polígono em GeoJSON (anel exterior fechado, coordenadas [longitude, latitude])
+export type SearchAreaPolygon = {
+  type: 'Polygon';
+  coordinates: [number, number][][];
+};
+
+export type GridSector = {
+  code: string;
+  row: number;
+  col: number;
+  polygon: SearchAreaPolygon;
+  centerLat: number;
+  centerLng: number;
+};
+
+function toRadians(value: number) {
+  return (value * Math.PI) / 180;
+}
+
+function isValidPoint(point: Coordinates) {
+  return (
+    Number.isFinite(point.latitude) &&
+    Number.isFinite(point.longitude) &&
+    Math.abs(point.latitude) <= 90 &&
+    Math.abs(point.longitude) <= 180
+  );
+}
+
+// Converte os vértices recebidos num polígono GeoJSON fechado; null se não formar uma área
+export function toSearchAreaPolygon(points: Coordinates[]): SearchAreaPolygon | null {
+  if (points.length < 3 || !points.every(isValidPoint)) {
+    return null;
+  }
+
+  const ring = points.map((point): [number, number] => [point.longitude, point.latitude]);
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  if (first[0] !== last[0] || first[1] !== last[1]) {
+    ring.push([first[0], first[1]]);
+  }
+  return ring.length >= 4 ? { type: 'Polygon', coordinates: [ring] } : null;
+}
+
+// Polígono regular (aproximação de um círculo) à volta do último ponto conhecido
+export function circleSearchArea(center: Coordinates, radiusMeters: number, vertices = 16): SearchAreaPolygon {
+  const latDelta = radiusMeters / METERS_PER_DEGREE_LAT;
+  const lngDelta = radiusMeters / (METERS_PER_DEGREE_LAT * Math.max(Math.cos(toRadians(center.latitude)), 0.000001));
+
+  const points = Array.from({ length: vertices }, (_, index) => {
+    const angle = (2 * Math.PI * index) / vertices;
+    return {
+      latitude: center.latitude + latDelta * Math.sin(angle),
+      longitude: center.longitude + lngDelta * Math.cos(angle),
+    };
+  });
+  return toSearchAreaPolygon(points)!;
+}
+
+// Ray casting sobre o anel exterior
+export function pointInPolygon(point: Coordinates, polygon: SearchAreaPolygon) {
+  const ring = polygon.coordinates[0];
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const crosses =
+      yi > point.latitude !== yj > point.latitude &&
+      point.longitude < ((xj - xi) * (point.latitude - yi)) / (yj - yi) + xi;
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function polygonBounds(polygon: SearchAreaPolygon) {
+  const ring = polygon.coordinates[0];
+  return {
+    minLat: Math.min(...ring.map(([, lat]) => lat)),
+    maxLat: Math.max(...ring.map(([, lat]) => lat)),
+    minLng: Math.min(...ring.map(([lng]) => lng)),
+    maxLng: Math.max(...ring.map(([lng]) => lng)),
+  };
+}
+
+// Linhas identificadas por letras (A..Z, AA..), colunas por números: "B3"
+export function sectorCode(row: number, col: number) {
+  let letters = '';
+  let value = row + 1;
+  while (value > 0) {
+    const remainder = (value - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    value = Math.floor((value - 1) / 26);
+  }
+  return `${letters}${col + 1}`;
+}
+
+// Referencial comum à grelha de setores e ao cálculo de cobertura
+function gridFrame(polygon: SearchAreaPolygon, sizeMeters: number) {
+  const bounds = polygonBounds(polygon);
+  const midLat = (bounds.minLat + bounds.maxLat) / 2;
+  return {
+    bounds,
+    latStep: sizeMeters / METERS_PER_DEGREE_LAT,
+    lngStep: sizeMeters / (METERS_PER_DEGREE_LAT * Math.max(Math.cos(toRadians(midLat)), 0.000001)),
+  };
+}
+
+/**
+ * Divide a área de busca numa grelha de setores quadrados de sizeMeters de lado.
+ * Ficam os setores cujo centro ou algum canto cai dentro do polígono.
+ * Devolve null quando a grelha excederia MAX_SECTORS_PER_MISSION.
+ */
+export function generateSearchGrid(polygon: SearchAreaPolygon, sizeMeters: number): GridSector[] | null {
+  const { bounds, latStep, lngStep } = gridFrame(polygon, sizeMeters);
+
+  const rows = Math.max(1, Math.ceil((bounds.maxLat - bounds.minLat) / latStep));
+  const cols = Math.max(1, Math.ceil((bounds.maxLng - bounds.minLng) / lngStep));
+  if (rows * cols > MAX_SECTORS_PER_MISSION * 4) {
+    return null;
+  }
+
+  const sectors: GridSector[] = [];
+  // Linha A no topo (norte), como num mapa
+  for (let row = 0; row < rows; row++) {
+    const north = bounds.maxLat - row * latStep;
+    const south = north - latStep;
+    for (let col = 0; col < cols; col++) {
+      const west = bounds.minLng + col * lngStep;
+      const east = west + lngStep;
+      const center = { latitude: (north + south) / 2, longitude: (west + east) / 2 };
+      const corners = [
+        { latitude: north, longitude: west },
+        { latitude: north, longitude: east },
+        { latitude: south, longitude: east },
+        { latitude: south, longitude: west },
+      ];
+
+      if (!pointInPolygon(center, polygon) && !corners.some((corner) => pointInPolygon(corner, polygon))) {
+        continue;
+      }
+
+      sectors.push({
+        code: sectorCode(row, col),
+        row,
+        col,
+        polygon: toSearchAreaPolygon(corners)!,
+        centerLat: center.latitude,
+        centerLng: center.longitude,
+      });
+      if (sectors.length > MAX_SECTORS_PER_MISSION) {
+        return null;
+      }
+    }
+  }
+
+  return sectors;
+}
+
+// Largura de varrimento de um voluntário a pé e salto máximo entre pontos GPS para interpolar
+export const DEFAULT_SWEEP_WIDTH_METERS = 25;
+const MAX_TRACK_GAP_METERS = 200;
+
+export type TrackCoverage = {
+  areaPercent: number;
+  sectors: Record<string, number>;
+};
+
+/**
+ * Cobertura calculada a partir dos trajetos: a área é rasterizada em células com a largura de varrimento
+ * (no mínimo 1/10 do setor, para limitar o número de células) e cada trajeto marca as células por onde passa,
+ * interpolando entre pontos próximos. Devolve a percentagem da área e de cada setor (por código) visitada.
+ */
+export function computeTrackCoverage(
+  polygon: SearchAreaPolygon,
+  sectorSizeMeters: number,
+  tracks: Coordinates[][],
+  sweepWidthMeters = DEFAULT_SWEEP_WIDTH_METERS,
+): TrackCoverage {
+  const cellMeters = Math.max(sweepWidthMeters, sectorSizeMeters / 10);
+  const sectorFrame = gridFrame(polygon, sectorSizeMeters);
+  const { bounds, latStep, lngStep } = gridFrame(polygon, cellMeters);
+
+  const cellKey = (point: Coordinates) =>
+    `${Math.floor((bounds.maxLat - point.latitude) / latStep)}:${Math.floor((point.longitude - bounds.minLng) / lngStep)}`;
+
+  const visited = new Set<string>();
+  const visit = (point: Coordinates) => visited.add(cellKey(point));
+  for (const track of tracks) {
+    track.forEach((point, index) => {
+      visit(point);
+      const next = track[index + 1];
+      if (!next) {
+        return;
+      }
+      const distance = haversineKm(point, next) * 1000;
+      if (distance > MAX_TRACK_GAP_METERS) {
+        return;
+      }
+      const steps = Math.ceil(distance / (cellMeters / 2));
+      for (let step = 1; step < steps; step++) {
+        visit({
+          latitude: point.latitude + ((next.latitude - point.latitude) * step) / steps,
+          longitude: point.longitude + ((next.longitude - point.longitude) * step) / steps,
+        });
+      }
+    });
+  }
+
+  const rows = Math.ceil((bounds.maxLat - bounds.minLat) / latStep);
+  const cols = Math.ceil((bounds.maxLng - bounds.minLng) / lngStep);
+  const totals: Record<string, { cells: number; visited: number }> = {};
+  let areaCells = 0;
+  let areaVisited = 0;
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const center = {
+        latitude: bounds.maxLat - (row + 0.5) * latStep,
+        longitude: bounds.minLng + (col + 0.5) * lngStep,
+      };
+      if (!pointInPolygon(center, polygon)) {
+        continue;
+      }
+
+      const wasVisited = visited.has(`${row}:${col}`);
+      areaCells++;
+      if (wasVisited) areaVisited++;
+
+      const code = sectorCode(
+        Math.floor((sectorFrame.bounds.maxLat - center.latitude) / sectorFrame.latStep),
+        Math.floor((center.longitude - sectorFrame.bounds.minLng) / sectorFrame.lngStep),
+      );
+      totals[code] ??= { cells: 0, visited: 0 };
+      totals[code].cells++;
+      if (wasVisited) totals[code].visited++;
+    }
+  }
+
+  const percent = (part: number, total: number) => (total === 0 ? 0 : Math.round((part / total) * 100));
+  return {
+    areaPercent: percent(areaVisited, areaCells),
+    sectors: Object.fromEntries(Object.entries(totals).map(([code, total]) => [code, percent(total.visited, total.cells)])),
+  };
+}
@@ -1,4 +1,6 @@
-import { Server } from 'socket.io';
+import { randomUUID } from 'node:crypto';
+import { Server, Socket } from 'socket.io';
+import { prisma } from './prisma.js';
 
 let ioInstance: Server | null = null;
 
@@ -13,48 +15,112 @@ export function getIO(): Server {
   return ioInstance;
 }
 
-export function emitNotification(options: { userId?: string | null; userRole?: string | null; type: string; title: string; message: string; metadata?: any }) {
+type NotificationOptions = {
+  userId?: string | null;
+  userIds?: string[];
+  userRole?: string | null;
+  type: string;
+  title: string;
+  message: string;
+  metadata?: any;
+};
+
+function isUserConnected(io: Server, userId: string) {
+  const room = io.sockets.adapter.rooms.get(`user:${userId}`);
+  return Boolean(room && room.size > 0);
+}
+
+function toSocketPayload(notification: { id: string; type: string; title: string; message: string; metadata: any; createdAt: Date }) {
+  return {
+    id: notification.id,
+    type: notification.type,
+    title: notification.title,
+    message: notification.message,
+    metadata: notification.metadata ?? undefined,
+    timestamp: notification.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Persiste a notificação (uma linha por destinatário) e envia em tempo real para quem estiver conectado.
+ * Quem estiver offline recebe as pendentes ao entrar na sala user:{id} (ver deliverPendingNotifications).
+ */
+export async function emitNotification(options: NotificationOptions) {
   try {
     const io = getIO();
-    const { userId, userRole, type, title, message, metadata } = options;
-    
-    const notification = {
+    const { userId, userIds, userRole, type, title, message, metadata } = options;
+
+    let recipientIds: string[];
+    if (userIds) {
+      recipientIds = Array.from(new Set(userIds));
+    } else if (userId) {
+      recipientIds = [userId];
+    } else {
+      const users = await prisma.user.findMany({
+        where: userRole ? { role: userRole as any, isBlocked: false } : { isBlocked: false },
+        select: { id: true },
+      });
+      recipientIds = users.map((user) => user.id);
+    }
+
+    if (recipientIds.length === 0) {
+      console.log(`[NOTIFICATION] Nenhum destinatário para notificação ${type}`);
+      return;
+    }
+
+    const createdAt = new Date();
+    const rows = recipientIds.map((recipientId) => ({
+      id: randomUUID(),
+      userId: recipientId,
       type,
       title,
       message,
-      metadata,
-      timestamp: new Date().toISOString(),
-    };
-
-    if (userId) {
-      // Notificação para usuário específico
-      const room = io.sockets.adapter.rooms.get(`user:${userId}`);
-      const socketCount = room ? room.size : 0;
-      
-      console.log(`[NOTIFICATION] Enviando notificação para usuário ${userId} (${socketCount} socket(s) na sala)`);
-      
-      if (socketCount === 0) {
-        console.warn(`[NOTIFICATION] Usuário ${userId} não está conectado. Notificação será perdida.`);
+      metadata: metadata ?? undefined,
+      deliveredAt: isUserConnected(io, recipientId) ? createdAt : null,
+      createdAt,
+    }));
+
+    await prisma.notification.createMany({ data: rows });
+
+    let online = 0;
+    for (const row of rows) {
+      if (row.deliveredAt) {
+        io.to(`user:${row.userId}`).emit('notification', toSocketPayload(row));
+        online++;
       }
-      
-      io.to(`user:${userId}`).emit('notification', notification);
-      console.log(`[NOTIFICATION] Notificação enviada para usuário ${userId}:`, type);
-    } else if (userRole) {
-      // Notificação para todos os usuários com uma role específica
-      const room = io.sockets.adapter.rooms.get(`role:${userRole}`);
-      const socketCount = room ? room.size : 0;
-      
-      console.log(`[NOTIFICATION] Enviando notificação para role ${userRole} (${socketCount} socket(s) na sala)`);
-      
-      io.to(`role:${userRole}`).emit('notification', notification);
-      console.log(`[NOTIFICATION] Notificação enviada para role ${userRole}:`, type);
-    } else {
-      // Broadcast para todos
-      console.log(`[NOTIFICATION] Enviando notificação para todos os usuários`);
-      io.emit('notification', notification);
     }
+
+    const target = userIds ? `${recipientIds.length} usuário(s)` : userId ? `usuário ${userId}` : userRole ? `role ${userRole}` : 'todos os usuários';
+    console.log(`[NOTIFICATION] ${type} para ${target}: ${rows.length} registada(s), ${online} entregue(s) em tempo real`);
   } catch (error) {
     console.error(`[NOTIFICATION] Erro ao enviar notificação:`, error);
   }
 }
 
+// Envia ao socket as notificações que ficaram pendentes enquanto o usuário estava offline
+export async function deliverPendingNotifications(socket: Socket, userId: string) {
+  try {
+    const pending = await prisma.notification.findMany({
+      where: { userId, deliveredAt: null },
+      orderBy: { createdAt: 'asc' },
+      take: 100,
+    });
+
+    if (pending.length === 0) {
+      return;
+    }
+
+    for (const notification of pending) {
+      socket.emit('notification', toSocketPayload(notification));
+    }
+
+    await prisma.notification.updateMany({
+      where: { id: { in: pending.map((notification) => notification.id) } },
+      data: { deliveredAt: new Date() },
+    });
+
+    console.log(`[NOTIFICATION] ${pending.length} notificação(ões) pendente(s) entregue(s) ao usuário ${userId}`);
+  } catch (error) {
+    console.error('[NOTIFICATION] Erro ao entregar notificações pendentes:', error);
+  }
+}
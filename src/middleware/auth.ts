@@ -1,5 +1,6 @@
 import { NextFunction, Request, Response } from 'express';
 import jwt from 'jsonwebtoken';
+import type { Socket } from 'socket.io';
 
 interface TokenPayload {
   sub: string;
@@ -84,3 +85,46 @@ export function optionalAuth() {
 }
 
 
+
+// Lê um cookie do header Cookie do handshake (o cookie-parser só atua nas rotas Express)
+function readCookie(header: string | undefined, name: string) {
+  if (!header) {
+    return undefined;
+  }
+  const match = header.split(';').map((part) => part.trim()).find((part) => part.startsWith(`${name}=`));
+  return match ? decodeURIComponent(match.substring(name.length + 1)) : undefined;
+}
+
+/**
+ * Middleware do Socket.IO: autentica a conexão com o mesmo JWT do requireAuth
+ * (handshake.auth.token, header Authorization ou cookie token) e guarda userId/userRole em socket.data.
+ */
+export function socketAuth() {
+  return (socket: Socket, next: (err?: Error) => void) => {
+    try {
+      const authHeader = socket.handshake.headers.authorization;
+      const token =
+        (typeof socket.handshake.auth?.token === 'string' ? socket.handshake.auth.token : undefined) ??
+        (authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : undefined) ??
+        readCookie(socket.handshake.headers.cookie, 'token');
+
+      if (!token) {
+        return next(new Error('Não autenticado'));
+      }
+
+      const secret = process.env.JWT_SECRET;
+      if (!secret) {
+        throw new Error('JWT_SECRET não configurado');
+      }
+
+      const payload = jwt.verify(token, secret) as TokenPayload;
+      socket.data.userId = payload.sub;
+      socket.data.userRole = payload.role;
+
+      next();
+    } catch (error) {
+      console.error('[SOCKET] Falha na autenticação do socket:', error);
+      next(new Error('Sessão inválida'));
+    }
+  };
+}
@@ -0,0 +1,241 @@
+import { Router } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { prisma } from '../lib/prisma.js';
+import { requireAuth } from '../middleware/auth.js';
+
+export const router = Router();
+
+// Limite de áreas vigiadas por usuário (casa, trabalho, município de um familiar...)
+const MAX_SUBSCRIPTIONS_PER_USER = 10;
+
+export const subscriptionValidators = [
+  body('name').optional().isString().isLength({ max: 80 }),
+  body('province').optional().isString(),
+  body('municipality').optional().isString(),
+  body('latitude').optional().isFloat({ min: -90, max: 90 }),
+  body('longitude').optional().isFloat({ min: -180, max: 180 }),
+  body('radiusKm').optional().isInt({ min: 5, max: 500 }),
+  body('type').optional().isIn(['PUSH', 'EMAIL', 'SMS', 'APLICATIVO']),
+  body('deviceToken').optional().isString(),
+  body('filters').optional().isObject(),
+  body('filters.priorities').optional().isArray(),
+  body('filters.priorities.*').isIn(['GERAL', 'CRIANCA', 'IDOSO', 'DEFICIENCIA', 'URGENTE']),
+  body('filters.genders').optional().isArray(),
+  body('filters.genders.*').isIn(['MASCULINO', 'FEMININO', 'OUTRO']),
+  body('filters.minAge').optional().isInt({ min: 0, max: 120 }),
+  body('filters.maxAge').optional().isInt({ min: 0, max: 120 }),
+];
+
+const subscriptionFields = ['name', 'province', 'municipality', 'latitude', 'longitude', 'radiusKm', 'filters', 'type', 'deviceToken'];
+
+function pickSubscriptionFields(body: any) {
+  const data: any = {};
+  for (const field of subscriptionFields) {
+    if (body[field] !== undefined) data[field] = body[field];
+  }
+  return data;
+}
+
+function hasArea(data: { province?: string | null; latitude?: number | null; longitude?: number | null }) {
+  return Boolean(data.province) || (data.latitude != null && data.longitude != null);
+}
+
+export async function createSubscription(req: any, res: any) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  if (!hasArea(req.body)) {
+    return res.status(400).json({ message: 'Informe uma província ou as coordenadas (latitude e longitude) da área' });
+  }
+
+  try {
+    const count = await prisma.alertSubscription.count({ where: { userId: req.userId } });
+    if (count >= MAX_SUBSCRIPTIONS_PER_USER) {
+      return res.status(400).json({ message: `Limite de ${MAX_SUBSCRIPTIONS_PER_USER} subscrições atingido` });
+    }
+
+    const subscription = await prisma.alertSubscription.create({
+      data: {
+        userId: req.userId,
+        name: req.body.name,
+        province: req.body.province,
+        municipality: req.body.municipality,
+        latitude: req.body.latitude,
+        longitude: req.body.longitude,
+        radiusKm: req.body.radiusKm,
+        filters: req.body.filters,
+        type: req.body.type,
+        deviceToken: req.body.deviceToken,
+      },
+    });
+
+    res.status(201).json({ subscription });
+  } catch (error: any) {
+    console.error('[ALERT_SUBSCRIPTIONS] Erro ao criar:', error);
+    res.status(500).json({
+      message: 'Erro ao criar subscrição',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Rota antiga POST /alerts/subscribe: atualiza a subscrição mais antiga do usuário (a que a rota
+ * sempre geriu) ou cria a primeira. Várias subscrições só através de /alerts/subscriptions.
+ */
+export async function upsertLegacySubscription(req: any, res: any) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  try {
+    const existing = await prisma.alertSubscription.findFirst({
+      where: { userId: req.userId },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (!existing) {
+      return createSubscription(req, res);
+    }
+
+    const updateData = pickSubscriptionFields(req.body);
+    if (!hasArea({ ...existing, ...updateData })) {
+      return res.status(400).json({ message: 'Informe uma província ou as coordenadas (latitude e longitude) da área' });
+    }
+
+    const subscription = await prisma.alertSubscription.update({
+      where: { id: existing.id },
+      data: updateData,
+    });
+
+    res.json({ subscription });
+  } catch (error: any) {
+    console.error('[ALERT_SUBSCRIPTIONS] Erro ao atualizar subscrição antiga:', error);
+    res.status(500).json({
+      message: 'Erro ao atualizar subscrição',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+// Listar subscrições do usuário
+router.get('/', requireAuth(), async (req: any, res: any) => {
+  try {
+    const subscriptions = await prisma.alertSubscription.findMany({
+      where: { userId: req.userId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({ subscriptions });
+  } catch (error: any) {
+    console.error('[ALERT_SUBSCRIPTIONS] Erro ao listar:', error);
+    res.status(500).json({
+      message: 'Erro ao listar subscrições',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+});
+
+// Criar subscrição
+router.post('/', requireAuth(), subscriptionValidators, createSubscription);
+
+// Atualizar subscrição
+router.patch(
+  '/:id',
+  requireAuth(),
+  [param('id').isString(), ...subscriptionValidators],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const existing = await prisma.alertSubscription.findFirst({
+        where: { id: req.params.id, userId: req.userId },
+      });
+
+      if (!existing) {
+        return res.status(404).json({ message: 'Subscrição não encontrada' });
+      }
+
+      const updateData = pickSubscriptionFields(req.body);
+
+      if (!hasArea({ ...existing, ...updateData })) {
+        return res.status(400).json({ message: 'Informe uma província ou as coordenadas (latitude e longitude) da área' });
+      }
+
+      const subscription = await prisma.alertSubscription.update({
+        where: { id: existing.id },
+        data: updateData,
+      });
+
+      res.json({ subscription });
+    } catch (error: any) {
+      console.error('[ALERT_SUBSCRIPTIONS] Erro ao atualizar:', error);
+      res.status(500).json({
+        message: 'Erro ao atualizar subscrição',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Pausar/retomar subscrição
+router.patch(
+  '/:id/pause',
+  requireAuth(),
+  [param('id').isString(), body('paused').isBoolean()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const existing = await prisma.alertSubscription.findFirst({
+        where: { id: req.params.id, userId: req.userId },
+      });
+
+      if (!existing) {
+        return res.status(404).json({ message: 'Subscrição não encontrada' });
+      }
+
+      const subscription = await prisma.alertSubscription.update({
+        where: { id: existing.id },
+        data: { isActive: !req.body.paused },
+      });
+
+      res.json({ subscription });
+    } catch (error: any) {
+      console.error('[ALERT_SUBSCRIPTIONS] Erro ao pausar:', error);
+      res.status(500).json({
+        message: 'Erro ao pausar subscrição',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Remover subscrição
+router.delete('/:id', requireAuth(), [param('id').isString()], async (req: any, res: any) => {
+  try {
+    const { count } = await prisma.alertSubscription.deleteMany({
+      where: { id: req.params.id, userId: req.userId },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ message: 'Subscrição não encontrada' });
+    }
+
+    res.json({ message: 'Subscrição removida com sucesso' });
+  } catch (error: any) {
+    console.error('[ALERT_SUBSCRIPTIONS] Erro ao remover:', error);
+    res.status(500).json({
+      message: 'Erro ao remover subscrição',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+});
@@ -1,66 +1,242 @@
 import { Router } from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, param, query, validationResult } from 'express-validator';
 import { prisma } from '../lib/prisma.js';
 import { requireAuth } from '../middleware/auth.js';
-import { pushAlert } from '../services/notification-service.js';
+import { ALERT_TITLE, attemptDelivery, queueAlertDeliveries } from '../services/alert-delivery-service.js';
+import { findMatchingSubscriptions } from '../services/alert-service.js';
+import { subscriptionValidators, upsertLegacySubscription } from './alert-subscriptions.js';
 
 export const router = Router();
 
-router.post(
-  '/subscribe',
+// Mantido por compatibilidade: atualiza a subscrição principal ou cria-a (ver /alerts/subscriptions)
+router.post('/subscribe', requireAuth(), subscriptionValidators, upsertLegacySubscription);
+
+// Caixa de alertas do usuário: apenas alertas que corresponderam às suas subscrições
+router.get(
+  '/history',
   requireAuth(),
   [
-    body('province').optional().isString(),
-    body('municipality').optional().isString(),
-    body('radiusKm').optional().isInt({ min: 5, max: 500 }),
-    body('deviceToken').optional().isString(),
+    query('unread').optional().isBoolean(),
+    query('page').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 100 }),
   ],
-  async (req, res) => {
+  async (req: any, res: any) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const subscription = await prisma.alertSubscription.upsert({
-      where: { userId: req.userId! },
-      update: { ...req.body },
-      create: {
-        userId: req.userId!,
-        province: req.body.province,
-        municipality: req.body.municipality,
-        radiusKm: req.body.radiusKm,
-        deviceToken: req.body.deviceToken,
-      },
-    });
+    try {
+      const { unread, page, limit } = req.query;
+      const pageNumber = page ? parseInt(String(page), 10) : 1;
+      const pageSize = limit ? parseInt(String(limit), 10) : 20;
+
+      const whereClause: any = { userId: req.userId };
+      if (unread === 'true') {
+        whereClause.readAt = null;
+      }
 
-    res.json({ subscription });
+      const [total, unreadCount, alerts] = await Promise.all([
+        prisma.userAlert.count({ where: whereClause }),
+        prisma.userAlert.count({ where: { userId: req.userId, readAt: null } }),
+        prisma.userAlert.findMany({
+          where: whereClause,
+          include: {
+            alertLog: {
+              include: {
+                missingPerson: {
+                  select: {
+                    id: true,
+                    fullName: true,
+                    province: true,
+                    municipality: true,
+                    priority: true,
+                    status: true,
+                    photos: { take: 1, select: { url: true } },
+                  },
+                },
+              },
+            },
+          },
+          orderBy: { createdAt: 'desc' },
+          skip: (pageNumber - 1) * pageSize,
+          take: pageSize,
+        }),
+      ]);
+
+      const totalPages = Math.ceil(total / pageSize);
+
+      res.json({
+        items: alerts.map((item) => {
+          const payload = (item.alertLog.payload ?? {}) as { title?: string; message?: string };
+          return {
+            id: item.id,
+            alertLogId: item.alertLogId,
+            title: payload.title || ALERT_TITLE,
+            message: payload.message,
+            read: item.readAt !== null,
+            readAt: item.readAt,
+            createdAt: item.createdAt,
+            caseId: item.alertLog.missingPersonId,
+            missingPerson: item.alertLog.missingPerson,
+          };
+        }),
+        unreadCount,
+        pagination: {
+          page: pageNumber,
+          limit: pageSize,
+          total,
+          totalPages,
+          hasNextPage: pageNumber < totalPages,
+          hasPrevPage: pageNumber > 1,
+        },
+      });
+    } catch (error: any) {
+      console.error('[ALERTS] Erro ao buscar histórico de alertas:', error);
+      res.status(500).json({
+        message: 'Erro ao buscar histórico de alertas',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
   },
 );
 
-router.get('/history', requireAuth(), async (_req, res) => {
-  const items = await prisma.alertLog.findMany({
-    include: {
-      missingPerson: {
-        select: {
-          id: true,
-          fullName: true,
-          province: true,
-        },
-      },
-    },
-    orderBy: { createdAt: 'desc' },
-    take: 25,
-  });
+// Marcar todos os alertas como lidos
+router.patch('/history/read-all', requireAuth(), async (req: any, res: any) => {
+  try {
+    const { count } = await prisma.userAlert.updateMany({
+      where: { userId: req.userId, readAt: null },
+      data: { readAt: new Date() },
+    });
 
-  res.json({ items });
+    res.json({ updated: count });
+  } catch (error: any) {
+    console.error('[ALERTS] Erro ao marcar alertas como lidos:', error);
+    res.status(500).json({
+      message: 'Erro ao marcar alertas como lidos',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
 });
 
+// Marcar um alerta como lido/não lido
+router.patch(
+  '/history/:id/read',
+  requireAuth(),
+  [param('id').isString(), body('read').optional().isBoolean()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const read = req.body.read !== false;
+      const { count } = await prisma.userAlert.updateMany({
+        where: { id: req.params.id, userId: req.userId },
+        data: { readAt: read ? new Date() : null },
+      });
+
+      if (count === 0) {
+        return res.status(404).json({ message: 'Alerta não encontrado' });
+      }
+
+      res.json({ id: req.params.id, read });
+    } catch (error: any) {
+      console.error('[ALERTS] Erro ao atualizar alerta:', error);
+      res.status(500).json({
+        message: 'Erro ao atualizar alerta',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Visão de moderação: todos os broadcasts, com filtros por caso, canal e data
+router.get(
+  '/broadcasts',
+  requireAuth(['MODERADOR', 'ADMIN']),
+  [
+    query('missingPersonId').optional().isString(),
+    query('channel').optional().isIn(['PUSH', 'EMAIL', 'SMS', 'APLICATIVO']),
+    query('from').optional().isISO8601(),
+    query('to').optional().isISO8601(),
+    query('page').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 100 }),
+  ],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missingPersonId, channel, from, to, page, limit } = req.query;
+      const pageNumber = page ? parseInt(String(page), 10) : 1;
+      const pageSize = limit ? parseInt(String(limit), 10) : 25;
+
+      const whereClause: any = {};
+      if (missingPersonId) {
+        whereClause.missingPersonId = String(missingPersonId);
+      }
+      if (channel) {
+        whereClause.OR = [{ type: channel }, { deliveries: { some: { channel } } }];
+      }
+      if (from || to) {
+        whereClause.createdAt = {
+          ...(from ? { gte: new Date(String(from)) } : {}),
+          ...(to ? { lte: new Date(String(to)) } : {}),
+        };
+      }
+
+      const [total, items] = await Promise.all([
+        prisma.alertLog.count({ where: whereClause }),
+        prisma.alertLog.findMany({
+          where: whereClause,
+          include: {
+            missingPerson: {
+              select: { id: true, fullName: true, province: true },
+            },
+            _count: {
+              select: { deliveries: true, recipients: true },
+            },
+          },
+          orderBy: { createdAt: 'desc' },
+          skip: (pageNumber - 1) * pageSize,
+          take: pageSize,
+        }),
+      ]);
+
+      const totalPages = Math.ceil(total / pageSize);
+
+      res.json({
+        items,
+        pagination: {
+          page: pageNumber,
+          limit: pageSize,
+          total,
+          totalPages,
+          hasNextPage: pageNumber < totalPages,
+          hasPrevPage: pageNumber > 1,
+        },
+      });
+    } catch (error: any) {
+      console.error('[ALERTS] Erro ao listar broadcasts:', error);
+      res.status(500).json({
+        message: 'Erro ao listar broadcasts',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
 router.post(
   '/broadcast',
   requireAuth(['MODERADOR', 'ADMIN']),
   [
     body('missingPersonId').isString(),
     body('channels').isArray({ min: 1 }),
+    body('channels.*').isIn(['PUSH', 'EMAIL', 'SMS', 'APLICATIVO']),
     body('message').isString(),
   ],
   async (req, res) => {
@@ -71,38 +247,154 @@ router.post(
 
     const { missingPersonId, channels, message } = req.body;
 
-    const missingPerson = await prisma.missingPerson.findUnique({ where: { id: missingPersonId } });
-    if (!missingPerson) {
+    // Subscrições por proximidade (raio) ou província/município, respeitando os filtros
+    const match = await findMatchingSubscriptions(missingPersonId);
+    if (!match) {
       return res.status(404).json({ message: 'Caso não encontrado' });
     }
 
-    const subs = await prisma.alertSubscription.findMany({
-      where: {
-        province: missingPerson.province,
+    // Cada subscrição recebe pelo seu canal, desde que esteja entre os canais do broadcast
+    const subs = match.subscriptions.filter((sub) => channels.includes(sub.type));
+
+    const alertLog = await prisma.alertLog.create({
+      data: {
+        missingPersonId,
+        type: channels[0],
+        payload: { title: ALERT_TITLE, message, channels, matched: subs.length, createdById: req.userId },
       },
     });
 
-    await Promise.all(
-      subs.map((sub) =>
-        pushAlert({
-          type: 'PUSH',
-          deviceToken: sub.deviceToken,
-          title: 'Alerta de desaparecimento',
-          message,
-          data: { missingPersonId },
-        }),
-      ),
+    // Caixa de alertas: um registo por usuário, mesmo com várias subscrições correspondentes
+    await prisma.userAlert.createMany({
+      data: Array.from(new Set(subs.map((sub) => sub.userId))).map((userId) => ({ userId, alertLogId: alertLog.id })),
+      skipDuplicates: true,
+    });
+
+    // Uma entrega por destinatário/canal; as que falharem ficam em fila para reenvio com backoff
+    const deliveries = await queueAlertDeliveries(
+      alertLog.id,
+      subs.map((sub) => ({ subscriptionId: sub.id, userId: sub.userId, channel: sub.type })),
     );
+    const results = await Promise.all(deliveries.map((delivery) => attemptDelivery(delivery)));
 
-    await prisma.alertLog.create({
-      data: {
-        missingPersonId,
-        type: 'PUSH',
-        payload: { message, channels },
-      },
+    if (subs.length > 0) {
+      await prisma.alertSubscription.updateMany({
+        where: { id: { in: subs.map((sub) => sub.id) } },
+        data: { lastNotified: new Date() },
+      });
+    }
+
+    res.json({
+      alertLogId: alertLog.id,
+      delivered: results.filter((result) => result.status === 'SENT').length,
+      retrying: results.filter((result) => result.status === 'QUEUED').length,
+      failed: results.filter((result) => result.status === 'FAILED' || result.status === 'BOUNCED').length,
     });
+  },
+);
+
+// Relatório de entregas de um broadcast (por destinatário e canal)
+router.get(
+  '/broadcasts/:alertLogId/deliveries',
+  requireAuth(['MODERADOR', 'ADMIN']),
+  [param('alertLogId').isString(), query('status').optional().isIn(['QUEUED', 'SENT', 'FAILED', 'BOUNCED'])],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { alertLogId } = req.params;
+      const { status } = req.query;
 
-    res.json({ delivered: subs.length });
+      const alertLog = await prisma.alertLog.findUnique({
+        where: { id: alertLogId },
+        include: {
+          missingPerson: {
+            select: { id: true, fullName: true, province: true },
+          },
+        },
+      });
+
+      if (!alertLog) {
+        return res.status(404).json({ message: 'Alerta não encontrado' });
+      }
+
+      const [deliveries, byStatus, byChannel] = await Promise.all([
+        prisma.alertDelivery.findMany({
+          where: { alertLogId, ...(status ? { status: status as any } : {}) },
+          include: {
+            user: {
+              select: { id: true, fullName: true, email: true, phone: true },
+            },
+          },
+          orderBy: { createdAt: 'asc' },
+        }),
+        prisma.alertDelivery.groupBy({
+          by: ['status'],
+          where: { alertLogId },
+          _count: { _all: true },
+        }),
+        prisma.alertDelivery.groupBy({
+          by: ['channel', 'status'],
+          where: { alertLogId },
+          _count: { _all: true },
+        }),
+      ]);
+
+      const statusMap: Record<string, number> = {};
+      byStatus.forEach((item) => {
+        statusMap[item.status] = item._count._all;
+      });
+
+      const channelMap: Record<string, Record<string, number>> = {};
+      byChannel.forEach((item) => {
+        channelMap[item.channel] = { ...(channelMap[item.channel] ?? {}), [item.status]: item._count._all };
+      });
+
+      res.json({
+        alertLog,
+        summary: {
+          porStatus: statusMap,
+          porCanal: channelMap,
+        },
+        deliveries,
+      });
+    } catch (error: any) {
+      console.error('[ALERTS] Erro ao buscar relatório de entregas:', error);
+      res.status(500).json({
+        message: 'Erro ao buscar relatório de entregas',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
   },
 );
 
+// Reenviar entregas que falharam definitivamente (volta a colocar em fila)
+router.post(
+  '/broadcasts/:alertLogId/retry',
+  requireAuth(['MODERADOR', 'ADMIN']),
+  [param('alertLogId').isString()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { count } = await prisma.alertDelivery.updateMany({
+        where: { alertLogId: req.params.alertLogId, status: 'FAILED' },
+        data: { status: 'QUEUED', attempts: 0, nextAttemptAt: new Date() },
+      });
+
+      res.json({ requeued: count });
+    } catch (error: any) {
+      console.error('[ALERTS] Erro ao reenviar entregas:', error);
+      res.status(500).json({
+        message: 'Erro ao reenviar entregas',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
@@ -3,7 +3,7 @@ import { body, param, query, validationResult } from 'express-validator';
 import { prisma } from '../lib/prisma.js';
 import { requireAuth } from '../middleware/auth.js';
 import { auditLog } from '../middleware/audit.js';
-import { emitNotification } from '../lib/socket.js';
+import { dispatchNotification } from '../services/notification-dispatch-service.js';
 
 export const router = Router();
 
@@ -113,21 +113,19 @@ router.post(
 
       // Enviar notificação em tempo real para todos os usuários (ou roles específicos)
       const notificationTargets = targetRoles || ['CIDADAO', 'FAMILIAR', 'VOLUNTARIO', 'MODERADOR', 'ADMIN', 'AUTORIDADE'];
-      
-      for (const role of notificationTargets) {
-        emitNotification({
-          userId: null,
-          userRole: role,
-          type: 'global_announcement',
-          title: title,
-          message: content.substring(0, 200) + (content.length > 200 ? '...' : ''),
-          metadata: {
-            announcementId: announcement.id,
-            type: type,
-            priority: priority,
-          },
-        });
-      }
+      const summary = content.substring(0, 200) + (content.length > 200 ? '...' : '');
+
+      await dispatchNotification('global_announcement', {
+        variables: { title, content: summary },
+        roles: notificationTargets,
+        title,
+        fallbackMessage: summary,
+        metadata: {
+          announcementId: announcement.id,
+          type: type,
+          priority: priority,
+        },
+      });
 
       res.status(201).json({ announcement });
     } catch (error: any) {
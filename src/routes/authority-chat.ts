@@ -1,17 +1,83 @@
 import { Router } from 'express';
-import { body, param, validationResult } from 'express-validator';
+import { body, param, query, validationResult } from 'express-validator';
 import { prisma } from '../lib/prisma.js';
+import { canViewCase } from '../lib/case-access.js';
 import { requireAuth } from '../middleware/auth.js';
-import { emitNotification } from '../lib/socket.js';
+import { MAX_MESSAGE_PAGE_SIZE, messagePageQuery, parseMessagePageSize, toMessagePage } from '../lib/message-cursor.js';
+import { dispatchNotification } from '../services/notification-dispatch-service.js';
+import {
+  attachmentSelect,
+  linkAttachments,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  normalizeAttachmentIds,
+  presentAttachment,
+  validatePendingAttachments,
+} from '../services/chat-attachment-service.js';
+import {
+  authorityChatTimings,
+  authorityQueueWhere,
+  canTransitionAuthorityChat,
+  canViewAuthorityChat,
+  countAuthorityChatUnread,
+  findQueueStaff,
+  getAuthorityChatSla,
+  isAuthorityChatStaff,
+  markAuthorityChatRead,
+  otherParticipant,
+  type AuthorityChatStaff,
+} from '../services/authority-chat-service.js';
 
 export const router = Router();
 
-// Criar novo chat com autoridade
+const chatStatuses = ['ABERTO', 'EM_ATENDIMENTO', 'RESOLVIDO', 'FECHADO'];
+
+// Texto usado nas notificações de mudança de estado
+const STATUS_LABELS: Record<string, string> = {
+  ABERTO: 'na fila de atendimento',
+  EM_ATENDIMENTO: 'em atendimento',
+  RESOLVIDO: 'marcada como resolvida',
+  FECHADO: 'encerrada',
+};
+
+// Província e órgão do usuário autenticado (definem a fila que vê)
+async function loadStaff(req: any): Promise<AuthorityChatStaff> {
+  const user = await prisma.user.findUnique({
+    where: { id: req.userId },
+    select: { province: true, agency: true },
+  });
+  return { userId: req.userId, role: req.userRole, province: user?.province, agency: user?.agency };
+}
+
+const chatAccessSelect = {
+  id: true,
+  userId: true,
+  authorityId: true,
+  province: true,
+  agency: true,
+  status: true,
+  subject: true,
+} as const;
+
+const linkedCaseSelect = { id: true, fullName: true, status: true, province: true } as const;
+
+// O caso vinculado tem de ser visível para quem cria ou altera a ligação
+async function findLinkableCase(missingPersonId: string, userId: string, userRole: string) {
+  const caseData = await prisma.missingPerson.findUnique({
+    where: { id: missingPersonId },
+    select: { id: true, province: true, reporterId: true, approved: true, isDeleted: true },
+  });
+  return caseData && canViewCase(caseData, userId, userRole) ? caseData : null;
+}
+
+// Criar novo chat: entra na fila da província/órgão, ou vai direto para uma autoridade (authorityId)
 router.post(
   '/',
   requireAuth(),
   [
-    body('authorityId').isString(),
+    body('authorityId').optional().isString(),
+    body('missingPersonId').optional().isString(),
+    body('province').optional().isString(),
+    body('agency').optional().isString(),
     body('subject').isString().notEmpty(),
     body('message').isString().notEmpty(),
   ],
@@ -22,24 +88,40 @@ router.post(
     }
 
     try {
-      const { authorityId, subject, message } = req.body;
+      const { authorityId, missingPersonId, subject, message } = req.body;
       const userId = req.userId;
 
-      // Verificar se a autoridade existe e tem role apropriado
-      const authority = await prisma.user.findUnique({
-        where: { id: authorityId },
-        select: { id: true, role: true },
-      });
+      const linkedCase = missingPersonId ? await findLinkableCase(missingPersonId, userId, req.userRole) : null;
+      if (missingPersonId && !linkedCase) {
+        return res.status(404).json({ message: 'Caso não encontrado' });
+      }
+
+      if (authorityId) {
+        // Verificar se a autoridade existe e tem role apropriado
+        const authority = await prisma.user.findUnique({
+          where: { id: authorityId },
+          select: { id: true, role: true },
+        });
 
-      if (!authority || (authority.role !== 'AUTORIDADE' && authority.role !== 'ADMIN' && authority.role !== 'MODERADOR')) {
-        return res.status(404).json({ message: 'Autoridade não encontrada' });
+        if (!authority || !isAuthorityChatStaff(authority.role)) {
+          return res.status(404).json({ message: 'Autoridade não encontrada' });
+        }
       }
 
+      // Sem província indicada, a conversa vai para a fila da província do caso ou do cidadão
+      const user = await prisma.user.findUnique({ where: { id: userId }, select: { province: true } });
+      const province = req.body.province || linkedCase?.province || user?.province || null;
+      const agency = req.body.agency || null;
+
       // Criar chat
       const chat = await prisma.authorityChat.create({
         data: {
           userId,
-          authorityId,
+          authorityId: authorityId || null,
+          missingPersonId: linkedCase?.id ?? null,
+          claimedAt: authorityId ? new Date() : null,
+          province,
+          agency,
           subject,
           status: 'ABERTO',
           messages: {
@@ -56,15 +138,18 @@ router.post(
               role: true,
             },
           },
+          missingPerson: { select: linkedCaseSelect },
         },
       });
 
-      // Notificar autoridade
-      emitNotification(authorityId, {
-        type: 'new_authority_chat',
-        title: 'Nova mensagem de cidadão',
-        message: `Você recebeu uma nova mensagem sobre: ${subject}`,
-        chatId: chat.id,
+      // Notificar a autoridade escolhida ou a equipa da fila
+      await dispatchNotification('new_authority_chat', {
+        variables: { subject },
+        userIds: authorityId ? [authorityId] : await findQueueStaff(province, agency),
+        // Só os destinatários da fila: os targetRoles por omissão avisariam todas as autoridades do país
+        roles: [],
+        excludeUserIds: [userId],
+        metadata: { chatId: chat.id },
       });
 
       res.status(201).json({ chat });
@@ -85,8 +170,8 @@ router.get('/', requireAuth(), async (req: any, res: any) => {
     const userRole = req.userRole;
 
     let chats;
-    if (userRole === 'AUTORIDADE' || userRole === 'ADMIN' || userRole === 'MODERADOR') {
-      // Autoridades veem chats onde são a autoridade
+    if (isAuthorityChatStaff(userRole)) {
+      // Autoridades veem chats que assumiram (os da fila estão em GET /queue)
       chats = await prisma.authorityChat.findMany({
         where: { authorityId: userId },
         include: {
@@ -96,6 +181,7 @@ router.get('/', requireAuth(), async (req: any, res: any) => {
               email: true,
             },
           },
+          missingPerson: { select: linkedCaseSelect },
           messages: {
             orderBy: { createdAt: 'desc' },
             take: 1,
@@ -114,6 +200,7 @@ router.get('/', requireAuth(), async (req: any, res: any) => {
               role: true,
             },
           },
+          missingPerson: { select: linkedCaseSelect },
           messages: {
             orderBy: { createdAt: 'desc' },
             take: 1,
@@ -123,7 +210,15 @@ router.get('/', requireAuth(), async (req: any, res: any) => {
       });
     }
 
-    res.json({ chats });
+    const unread = await countAuthorityChatUnread(chats.map((chat) => chat.id), userId);
+
+    res.json({
+      chats: chats.map((chat) => ({
+        ...chat,
+        unreadCount: unread.get(chat.id) ?? 0,
+        timings: authorityChatTimings(chat),
+      })),
+    });
   } catch (error: any) {
     console.error('[AUTHORITY_CHAT] Erro ao listar chats:', error);
     res.status(500).json({
@@ -133,6 +228,320 @@ router.get('/', requireAuth(), async (req: any, res: any) => {
   }
 });
 
+// Fila de conversas por assumir (mais antigas primeiro)
+router.get(
+  '/queue',
+  requireAuth(['AUTORIDADE', 'ADMIN', 'MODERADOR']),
+  [query('province').optional().isString(), query('agency').optional().isString()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const staff = await loadStaff(req);
+      const [chats, sla] = await Promise.all([
+        prisma.authorityChat.findMany({
+          where: authorityQueueWhere(staff, { province: req.query.province, agency: req.query.agency }),
+          include: {
+            user: {
+              select: {
+                fullName: true,
+                province: true,
+              },
+            },
+            missingPerson: { select: linkedCaseSelect },
+            messages: {
+              orderBy: { createdAt: 'desc' },
+              take: 1,
+            },
+          },
+          orderBy: { createdAt: 'asc' },
+          take: 100,
+        }),
+        getAuthorityChatSla(),
+      ]);
+
+      const now = Date.now();
+      res.json({
+        chats: chats.map((chat) => {
+          const waitingMinutes = Math.round((now - chat.createdAt.getTime()) / 60000);
+          return { ...chat, waitingMinutes, slaBreached: waitingMinutes >= sla.firstResponseMinutes };
+        }),
+        sla,
+      });
+    } catch (error: any) {
+      console.error('[AUTHORITY_CHAT] Erro ao listar fila:', error);
+      res.status(500).json({
+        message: 'Erro ao listar fila de conversas',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Assumir uma conversa da fila
+router.post(
+  '/:chatId/claim',
+  requireAuth(['AUTORIDADE', 'ADMIN', 'MODERADOR']),
+  [param('chatId').isString()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { chatId } = req.params;
+      const staff = await loadStaff(req);
+
+      const chat = await prisma.authorityChat.findUnique({ where: { id: chatId }, select: chatAccessSelect });
+      if (!chat || !canViewAuthorityChat(chat, staff)) {
+        return res.status(404).json({ message: 'Conversa não encontrada' });
+      }
+
+      // Atualização condicional: duas autoridades não assumem a mesma conversa
+      const { count } = await prisma.authorityChat.updateMany({
+        where: { id: chatId, authorityId: null, status: 'ABERTO' },
+        data: { authorityId: req.userId, claimedAt: new Date() },
+      });
+      if (count === 0) {
+        return res.status(409).json({ message: 'Conversa já foi assumida ou não está aberta' });
+      }
+
+      await dispatchNotification('authority_chat_status', {
+        variables: { subject: chat.subject, status: 'assumida por uma autoridade' },
+        userIds: [chat.userId],
+        metadata: { chatId },
+      });
+
+      const updated = await prisma.authorityChat.findUnique({
+        where: { id: chatId },
+        include: { authority: { select: { id: true, fullName: true, role: true } } },
+      });
+
+      res.json({ chat: updated });
+    } catch (error: any) {
+      console.error('[AUTHORITY_CHAT] Erro ao assumir chat:', error);
+      res.status(500).json({
+        message: 'Erro ao assumir conversa',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Transferir para outra autoridade ou devolver à fila de outra província/órgão
+router.post(
+  '/:chatId/transfer',
+  requireAuth(['AUTORIDADE', 'ADMIN', 'MODERADOR']),
+  [
+    param('chatId').isString(),
+    body('toAuthorityId').optional().isString(),
+    body('province').optional().isString(),
+    body('agency').optional().isString(),
+    body('reason').optional().isString().isLength({ max: 500 }),
+  ],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { chatId } = req.params;
+      const { toAuthorityId, province, agency, reason } = req.body;
+
+      if (!toAuthorityId && !province && !agency) {
+        return res.status(400).json({ message: 'Indique a autoridade ou a fila de destino' });
+      }
+
+      const chat = await prisma.authorityChat.findUnique({ where: { id: chatId }, select: chatAccessSelect });
+      if (!chat) {
+        return res.status(404).json({ message: 'Conversa não encontrada' });
+      }
+      if (chat.authorityId !== req.userId && req.userRole !== 'ADMIN') {
+        return res.status(403).json({ message: 'Apenas a autoridade responsável pode transferir a conversa' });
+      }
+      if (chat.status === 'FECHADO' || chat.status === 'RESOLVIDO') {
+        return res.status(400).json({ message: 'Apenas conversas em aberto ou em atendimento podem ser transferidas' });
+      }
+
+      if (toAuthorityId) {
+        const authority = await prisma.user.findUnique({
+          where: { id: toAuthorityId },
+          select: { role: true, isBlocked: true },
+        });
+        if (!authority || authority.isBlocked || !isAuthorityChatStaff(authority.role)) {
+          return res.status(404).json({ message: 'Autoridade não encontrada' });
+        }
+      }
+
+      // Para a fila, a conversa volta a ABERTO e sem responsável, e o SLA de resposta recomeça na nova fila
+      const data = toAuthorityId
+        ? { authorityId: toAuthorityId, claimedAt: new Date() }
+        : {
+            authorityId: null,
+            claimedAt: null,
+            status: 'ABERTO' as const,
+            province: province || chat.province,
+            agency: agency || chat.agency,
+            queuedAt: new Date(),
+            escalationLevel: 0,
+            escalatedAt: null,
+          };
+
+      const [updated, transfer] = await prisma.$transaction([
+        prisma.authorityChat.update({ where: { id: chatId }, data }),
+        prisma.authorityChatTransfer.create({
+          data: {
+            chatId,
+            fromAuthorityId: chat.authorityId,
+            toAuthorityId: toAuthorityId || null,
+            toProvince: toAuthorityId ? null : province || chat.province,
+            toAgency: toAuthorityId ? null : agency || chat.agency,
+            reason: reason || null,
+            createdById: req.userId,
+          },
+        }),
+      ]);
+
+      await dispatchNotification('new_authority_chat', {
+        variables: { subject: chat.subject },
+        userIds: toAuthorityId ? [toAuthorityId] : await findQueueStaff(updated.province, updated.agency),
+        roles: [],
+        excludeUserIds: [req.userId],
+        metadata: { chatId, transferId: transfer.id },
+      });
+      await dispatchNotification('authority_chat_status', {
+        variables: { subject: chat.subject, status: 'transferida para outra autoridade' },
+        userIds: [chat.userId],
+        metadata: { chatId },
+      });
+
+      res.json({ chat: updated, transfer });
+    } catch (error: any) {
+      console.error('[AUTHORITY_CHAT] Erro ao transferir chat:', error);
+      res.status(500).json({
+        message: 'Erro ao transferir conversa',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Alterar estado: a autoridade responsável segue as transições permitidas;
+// o cidadão só pode encerrar ou reabrir uma conversa resolvida
+router.patch(
+  '/:chatId/status',
+  requireAuth(),
+  [param('chatId').isString(), body('status').isIn(chatStatuses)],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { chatId } = req.params;
+      const { status } = req.body;
+      const userId = req.userId;
+
+      const chat = await prisma.authorityChat.findUnique({ where: { id: chatId }, select: chatAccessSelect });
+      if (!chat) {
+        return res.status(404).json({ message: 'Conversa não encontrada' });
+      }
+
+      const isOwner = chat.userId === userId;
+      const isAssigned = chat.authorityId === userId || (req.userRole === 'ADMIN' && Boolean(chat.authorityId));
+      if (!isOwner && !isAssigned) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      if (!canTransitionAuthorityChat(chat.status, status)) {
+        return res.status(400).json({ message: `Transição inválida: ${chat.status} → ${status}` });
+      }
+      if (!isAssigned && status !== 'FECHADO' && !(chat.status === 'RESOLVIDO' && status === 'EM_ATENDIMENTO')) {
+        return res.status(403).json({ message: 'Só pode encerrar a conversa ou reabri-la depois de resolvida' });
+      }
+
+      const now = new Date();
+      const updated = await prisma.authorityChat.update({
+        where: { id: chatId },
+        data: {
+          status,
+          ...(status === 'RESOLVIDO' ? { resolvedAt: now } : {}),
+          ...(status === 'FECHADO' ? { closedAt: now } : {}),
+          // Reabrir descarta a resolução anterior
+          ...(chat.status === 'RESOLVIDO' && status === 'EM_ATENDIMENTO' ? { resolvedAt: null } : {}),
+        },
+      });
+
+      const recipientId = otherParticipant(chat, userId);
+      if (recipientId) {
+        await dispatchNotification('authority_chat_status', {
+          variables: { subject: chat.subject, status: STATUS_LABELS[status] },
+          userIds: [recipientId],
+          metadata: { chatId, status },
+        });
+      }
+
+      res.json({ chat: { ...updated, timings: authorityChatTimings(updated) } });
+    } catch (error: any) {
+      console.error('[AUTHORITY_CHAT] Erro ao alterar estado:', error);
+      res.status(500).json({
+        message: 'Erro ao alterar estado da conversa',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Vincular (ou desvincular com null) a conversa a um caso
+router.patch(
+  '/:chatId/case',
+  requireAuth(),
+  [param('chatId').isString(), body('missingPersonId').optional({ nullable: true }).isString()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { chatId } = req.params;
+      const missingPersonId = req.body.missingPersonId || null;
+
+      const chat = await prisma.authorityChat.findUnique({ where: { id: chatId }, select: chatAccessSelect });
+      if (!chat) {
+        return res.status(404).json({ message: 'Conversa não encontrada' });
+      }
+      if (chat.userId !== req.userId && chat.authorityId !== req.userId && req.userRole !== 'ADMIN') {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      if (missingPersonId && !(await findLinkableCase(missingPersonId, req.userId, req.userRole))) {
+        return res.status(404).json({ message: 'Caso não encontrado' });
+      }
+
+      const updated = await prisma.authorityChat.update({
+        where: { id: chatId },
+        data: { missingPersonId },
+        include: { missingPerson: { select: linkedCaseSelect } },
+      });
+
+      res.json({ chat: updated });
+    } catch (error: any) {
+      console.error('[AUTHORITY_CHAT] Erro ao vincular caso:', error);
+      res.status(500).json({
+        message: 'Erro ao vincular caso à conversa',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
 // Obter detalhes de um chat
 router.get('/:chatId', requireAuth(), [param('chatId').isString()], async (req: any, res: any) => {
   const errors = validationResult(req);
@@ -142,7 +551,6 @@ router.get('/:chatId', requireAuth(), [param('chatId').isString()], async (req:
 
   try {
     const { chatId } = req.params;
-    const userId = req.userId;
 
     // Verificar se o usuário tem acesso ao chat
     const chat = await prisma.authorityChat.findUnique({
@@ -162,14 +570,16 @@ router.get('/:chatId', requireAuth(), [param('chatId').isString()], async (req:
             role: true,
           },
         },
+        missingPerson: { select: linkedCaseSelect },
+        transfers: { orderBy: { createdAt: 'asc' } },
       },
     });
 
-    if (!chat || (chat.userId !== userId && chat.authorityId !== userId)) {
+    if (!chat || !canViewAuthorityChat(chat, await loadStaff(req))) {
       return res.status(403).json({ message: 'Acesso negado' });
     }
 
-    res.json({ chat });
+    res.json({ chat: { ...chat, timings: authorityChatTimings(chat) } });
   } catch (error: any) {
     console.error('[AUTHORITY_CHAT] Erro ao buscar chat:', error);
     res.status(500).json({
@@ -179,66 +589,160 @@ router.get('/:chatId', requireAuth(), [param('chatId').isString()], async (req:
   }
 });
 
-// Obter mensagens de um chat
-router.get('/:chatId/messages', requireAuth(), [param('chatId').isString()], async (req: any, res: any) => {
-  const errors = validationResult(req);
-  if (!errors.isEmpty()) {
-    return res.status(400).json({ errors: errors.array() });
-  }
+// Obter mensagens de um chat (paginação por cursor: before/after = id da mensagem)
+router.get(
+  '/:chatId/messages',
+  requireAuth(),
+  [
+    param('chatId').isString(),
+    query('before').optional().isString(),
+    query('after').optional().isString(),
+    query('limit').optional().isInt({ min: 1, max: MAX_MESSAGE_PAGE_SIZE }),
+  ],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
 
-  try {
-    const { chatId } = req.params;
-    const userId = req.userId;
+    try {
+      const { chatId } = req.params;
+      const userId = req.userId;
 
-    // Verificar se o usuário tem acesso ao chat
-    const chat = await prisma.authorityChat.findUnique({
-      where: { id: chatId },
-      select: { userId: true, authorityId: true },
-    });
+      // Verificar se o usuário tem acesso ao chat
+      const chat = await prisma.authorityChat.findUnique({
+        where: { id: chatId },
+        select: chatAccessSelect,
+      });
 
-    if (!chat || (chat.userId !== userId && chat.authorityId !== userId)) {
-      return res.status(403).json({ message: 'Acesso negado' });
-    }
+      if (!chat || !canViewAuthorityChat(chat, await loadStaff(req))) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
 
-    const messages = await prisma.authorityChatMessage.findMany({
-      where: { chatId },
-      include: {
-        sender: {
-          select: {
-            id: true,
-            fullName: true,
-            role: true,
+      const direction = req.query.after ? 'after' : 'before';
+      const cursorId = req.query.after || req.query.before;
+      const limit = parseMessagePageSize(req.query.limit);
+
+      const cursor = cursorId
+        ? await prisma.authorityChatMessage.findFirst({
+            where: { id: String(cursorId), chatId },
+            select: { id: true, createdAt: true },
+          })
+        : null;
+      if (cursorId && !cursor) {
+        return res.status(400).json({ message: 'Cursor inválido' });
+      }
+
+      const pageQuery = messagePageQuery(cursor, direction, limit);
+      const rows = await prisma.authorityChatMessage.findMany({
+        where: { chatId, ...pageQuery.where },
+        include: {
+          sender: {
+            select: {
+              id: true,
+              fullName: true,
+              role: true,
+            },
           },
+          attachments: { select: attachmentSelect },
         },
-      },
-      orderBy: { createdAt: 'asc' },
-    });
+        orderBy: pageQuery.orderBy,
+        take: pageQuery.take,
+      });
+      const { items, pagination } = toMessagePage(rows, direction, limit);
 
-    // Marcar mensagens como lidas
-    await prisma.authorityChatMessage.updateMany({
-      where: {
-        chatId,
-        senderId: { not: userId },
-        isRead: false,
-      },
-      data: { isRead: true },
-    });
+      // Abrir a página mais recente marca o chat como lido (como antes do marcador por usuário);
+      // quem só consulta a fila não deixa marcador
+      const isParticipant = chat.userId === userId || chat.authorityId === userId;
+      if (!cursorId && isParticipant) {
+        await markAuthorityChatRead(chat, userId);
+      }
 
-    res.json({ messages });
-  } catch (error: any) {
-    console.error('[AUTHORITY_CHAT] Erro ao buscar mensagens:', error);
-    res.status(500).json({
-      message: 'Erro ao buscar mensagens',
-      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
-    });
-  }
-});
+      const markers = await prisma.authorityChatReadMarker.findMany({ where: { chatId } });
+      const ownMarker = markers.find((marker) => marker.userId === userId);
+      const otherMarker = markers.find((marker) => marker.userId === otherParticipant(chat, userId));
+      const unread = await countAuthorityChatUnread([chatId], userId);
+
+      // isRead: lida pelo destinatário de cada mensagem
+      const messages = items.map((message) => {
+        const recipientMarker = message.senderId === userId ? otherMarker : ownMarker;
+        return {
+          ...message,
+          attachments: message.attachments.map(presentAttachment),
+          isRead: Boolean(recipientMarker && recipientMarker.lastReadAt >= message.createdAt),
+        };
+      });
+
+      res.json({
+        messages,
+        pagination,
+        readMarker: ownMarker ? { lastReadMessageId: ownMarker.lastReadMessageId, lastReadAt: ownMarker.lastReadAt } : null,
+        otherReadMarker: otherMarker
+          ? { lastReadMessageId: otherMarker.lastReadMessageId, lastReadAt: otherMarker.lastReadAt }
+          : null,
+        unreadCount: unread.get(chatId) ?? 0,
+      });
+    } catch (error: any) {
+      console.error('[AUTHORITY_CHAT] Erro ao buscar mensagens:', error);
+      res.status(500).json({
+        message: 'Erro ao buscar mensagens',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Marcar o chat como lido até uma mensagem (ou até a mais recente)
+router.put(
+  '/:chatId/read',
+  requireAuth(),
+  [param('chatId').isString(), body('messageId').optional().isString()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const chat = await prisma.authorityChat.findUnique({
+        where: { id: req.params.chatId },
+        select: chatAccessSelect,
+      });
+
+      if (!chat || (chat.userId !== req.userId && chat.authorityId !== req.userId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const marker = await markAuthorityChatRead(chat, req.userId, req.body.messageId);
+      if (req.body.messageId && !marker) {
+        return res.status(404).json({ message: 'Mensagem não encontrada' });
+      }
+
+      res.json({
+        chatId: chat.id,
+        lastReadMessageId: marker?.lastReadMessageId ?? null,
+        lastReadAt: marker?.lastReadAt ?? null,
+      });
+    } catch (error: any) {
+      console.error('[AUTHORITY_CHAT] Erro ao marcar como lido:', error);
+      res.status(500).json({
+        message: 'Erro ao marcar chat como lido',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
 
 // Enviar mensagem
 router.post(
   '/:chatId/messages',
   requireAuth(),
-  [param('chatId').isString(), body('content').isString().notEmpty()],
+  [
+    param('chatId').isString(),
+    body('content').optional().isString(),
+    body('attachmentIds').optional().isArray({ max: MAX_ATTACHMENTS_PER_MESSAGE }),
+    body('attachmentIds.*').optional().isString(),
+  ],
   async (req: any, res: any) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -247,56 +751,84 @@ router.post(
 
     try {
       const { chatId } = req.params;
-      const { content } = req.body;
+      const content = typeof req.body.content === 'string' ? req.body.content.trim() : '';
+      const attachmentIds = normalizeAttachmentIds(req.body.attachmentIds);
       const userId = req.userId;
 
+      // Mensagens só com anexos podem ter o texto vazio
+      if (!content && attachmentIds.length === 0) {
+        return res.status(400).json({ message: 'Escreva uma mensagem ou envie um anexo' });
+      }
+
       // Verificar acesso
       const chat = await prisma.authorityChat.findUnique({
         where: { id: chatId },
-        include: {
-          user: { select: { id: true } },
-          authority: { select: { id: true } },
-        },
+        select: { ...chatAccessSelect, firstResponseAt: true },
       });
 
       if (!chat || (chat.userId !== userId && chat.authorityId !== userId)) {
-        return res.status(403).json({ message: 'Acesso negado' });
+        // A equipa da fila tem de assumir a conversa antes de responder
+        const canClaim = chat && !chat.authorityId && canViewAuthorityChat(chat, await loadStaff(req));
+        return res.status(403).json({ message: canClaim ? 'Assuma a conversa antes de responder' : 'Acesso negado' });
+      }
+      if (chat.status === 'FECHADO') {
+        return res.status(400).json({ message: 'Conversa encerrada' });
       }
 
-      // Criar mensagem
-      const message = await prisma.authorityChatMessage.create({
-        data: {
-          chatId,
-          senderId: userId,
-          content,
-        },
-        include: {
-          sender: {
-            select: {
-              id: true,
-              fullName: true,
-              role: true,
+      const attachmentError = await validatePendingAttachments(attachmentIds, userId);
+      if (attachmentError) {
+        return res.status(400).json({ message: attachmentError });
+      }
+
+      // Criar mensagem (e ligar os anexos na mesma transação)
+      const message = await prisma.$transaction(async (tx) => {
+        const created = await tx.authorityChatMessage.create({
+          data: {
+            chatId,
+            senderId: userId,
+            content,
+          },
+        });
+        await linkAttachments(tx, attachmentIds, userId, { authorityChatMessageId: created.id });
+
+        return tx.authorityChatMessage.findUniqueOrThrow({
+          where: { id: created.id },
+          include: {
+            sender: {
+              select: {
+                id: true,
+                fullName: true,
+                role: true,
+              },
             },
+            attachments: { select: attachmentSelect },
           },
-        },
+        });
       });
 
-      // Atualizar status do chat
+      // A primeira resposta da autoridade conta para o SLA e inicia o atendimento
+      const isFirstResponse = userId === chat.authorityId && !chat.firstResponseAt;
       await prisma.authorityChat.update({
         where: { id: chatId },
-        data: { status: 'EM_ATENDIMENTO', updatedAt: new Date() },
+        data: {
+          updatedAt: new Date(),
+          ...(isFirstResponse ? { firstResponseAt: message.createdAt } : {}),
+          ...(userId === chat.authorityId && chat.status === 'ABERTO' ? { status: 'EM_ATENDIMENTO' as const } : {}),
+        },
       });
 
-      // Notificar o outro participante
-      const recipientId = chat.userId === userId ? chat.authorityId : chat.userId;
-      emitNotification(recipientId, {
-        type: 'authority_chat_message',
-        title: 'Nova mensagem',
-        message: content.substring(0, 50) + '...',
-        chatId,
+      // Notificar o outro participante (ninguém enquanto a conversa está na fila)
+      const recipientId = otherParticipant(chat, userId);
+      await dispatchNotification('authority_chat_message', {
+        variables: {
+          senderName: message.sender.fullName,
+          preview: !content ? 'Enviou um anexo' : content.length > 50 ? `${content.substring(0, 50)}...` : content,
+        },
+        userIds: [recipientId],
+        metadata: { chatId },
       });
 
-      res.status(201).json({ message });
+      res.status(201).json({ message: { ...message, attachments: message.attachments.map(presentAttachment) } });
     } catch (error: any) {
       console.error('[AUTHORITY_CHAT] Erro ao enviar mensagem:', error);
       res.status(500).json({
@@ -1,184 +1,1059 @@
 import { Router } from 'express';
 import { body, param, query, validationResult } from 'express-validator';
 import { prisma } from '../lib/prisma.js';
-import { requireAuth } from '../middleware/auth.js';
 import { getIO } from '../lib/socket.js';
+import { requireAuth } from '../middleware/auth.js';
+import { isModeratorRole } from '../lib/case-access.js';
+import { attachmentSelect, MAX_ATTACHMENTS_PER_MESSAGE } from '../services/chat-attachment-service.js';
+import { MAX_MESSAGE_PAGE_SIZE, messagePageQuery, parseMessagePageSize, toMessagePage } from '../lib/message-cursor.js';
+import {
+  countUnreadByThread,
+  emitChatThreadEvent,
+  getActiveChatMute,
+  getOrCreatePublicThread,
+  getThreadAccess,
+  loadChatAliases,
+  markThreadRead,
+  MAX_CHAT_MESSAGE_LENGTH,
+  moderationSenderRef,
+  presentChatMessage,
+  sendCaseChatMessage,
+} from '../services/chat-service.js';
 
 export const router = Router();
 
-// Criar ou obter thread de chat para um caso
-async function getOrCreateChatThread(caseId: string) {
-  let thread = await prisma.chatThread.findFirst({
-    where: { missingPersonId: caseId },
-  });
+const caseSelect = { reporterId: true, approved: true, isDeleted: true } as const;
 
+// Carrega caso + thread (público quando threadId não é informado) e as permissões do usuário
+async function loadThreadContext(caseId: string, threadId: string | undefined, viewer: { userId?: string; role?: string }) {
+  const caseData = await prisma.missingPerson.findUnique({ where: { id: caseId }, select: caseSelect });
+  if (!caseData) {
+    return null;
+  }
+
+  const thread = threadId
+    ? await prisma.chatThread.findFirst({ where: { id: threadId, missingPersonId: caseId } })
+    : await getOrCreatePublicThread(caseId);
   if (!thread) {
-    // Criar thread público para o caso
-    const caseData = await prisma.missingPerson.findUnique({
-      where: { id: caseId },
-      select: { reporterId: true },
-    });
+    return null;
+  }
+
+  const access = await getThreadAccess(thread, caseData, viewer);
+  return { caseData, thread, access };
+}
+
+function presentThread(thread: any, access: { canRead: boolean; canPost: boolean; canManage: boolean }) {
+  return {
+    id: thread.id,
+    caseId: thread.missingPersonId,
+    type: thread.type,
+    visibility: thread.visibility,
+    title: thread.title,
+    createdById: thread.createdById,
+    createdAt: thread.createdAt,
+    memberCount: thread._count?.members ?? undefined,
+    messageCount: thread._count?.messages ?? undefined,
+    canPost: access.canPost,
+    canManage: access.canManage,
+  };
+}
+
+// Listar os threads do caso que o usuário pode ler
+router.get('/:caseId/threads', requireAuth(), [param('caseId').isString()], async (req: any, res: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
 
+  try {
+    const caseData = await prisma.missingPerson.findUnique({ where: { id: req.params.caseId }, select: caseSelect });
     if (!caseData) {
-      throw new Error('Caso não encontrado');
+      return res.status(404).json({ message: 'Caso não encontrado' });
     }
 
-    thread = await prisma.chatThread.create({
-      data: {
-        missingPersonId: caseId,
-        createdById: caseData.reporterId,
-        type: 'FAMILIARES',
-        visibility: 'PUBLICO',
-      },
+    await getOrCreatePublicThread(req.params.caseId);
+    const threads = await prisma.chatThread.findMany({
+      where: { missingPersonId: req.params.caseId },
+      include: { _count: { select: { members: true, messages: true } } },
+      orderBy: { createdAt: 'asc' },
     });
-  }
 
-  return thread;
-}
+    const viewer = { userId: req.userId, role: req.userRole };
+    const visible = [];
+    for (const thread of threads) {
+      const access = await getThreadAccess(thread, caseData, viewer);
+      if (access.canRead) {
+        visible.push(presentThread(thread, access));
+      }
+    }
+    const unread = await countUnreadByThread(visible.map((thread) => thread.id), req.userId);
 
-// Buscar mensagens de um caso
-router.get(
-  '/:caseId/messages',
+    res.json({ threads: visible.map((thread) => ({ ...thread, unreadCount: unread.get(thread.id) ?? 0 })) });
+  } catch (error: any) {
+    console.error('[CHAT] Erro ao listar conversas:', error);
+    res.status(500).json({
+      message: 'Erro ao listar conversas do caso',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+});
+
+// Criar thread privado: família (autor do caso/moderação) ou autoridades (AUTORIDADE/ADMIN)
+router.post(
+  '/:caseId/threads',
   requireAuth(),
-  [param('caseId').isString()],
-  async (req, res) => {
+  [
+    param('caseId').isString(),
+    body('type').isIn(['FAMILIARES', 'AUTORIDADES']),
+    body('title').optional().isString().trim().isLength({ min: 1, max: 120 }),
+    body('memberIds').optional().isArray({ max: 50 }),
+    body('memberIds.*').optional().isString(),
+  ],
+  async (req: any, res: any) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       return res.status(400).json({ errors: errors.array() });
     }
 
     try {
-      const thread = await getOrCreateChatThread(req.params.caseId);
-      
-      const messages = await prisma.chatMessage.findMany({
-        where: { threadId: thread.id },
+      const { type, title } = req.body;
+      const caseData = await prisma.missingPerson.findUnique({ where: { id: req.params.caseId }, select: caseSelect });
+      if (!caseData) {
+        return res.status(404).json({ message: 'Caso não encontrado' });
+      }
+
+      const isStaff = req.userRole === 'MODERADOR' || req.userRole === 'ADMIN';
+      const allowed =
+        type === 'AUTORIDADES'
+          ? req.userRole === 'AUTORIDADE' || req.userRole === 'ADMIN'
+          : caseData.reporterId === req.userId || isStaff;
+      if (!allowed) {
+        return res.status(403).json({ message: 'Sem permissão para criar esta conversa' });
+      }
+
+      const memberIds: string[] = Array.from(new Set<string>(req.body.memberIds ?? [])).filter((id) => id !== req.userId);
+      if (memberIds.length > 0) {
+        const found = await prisma.user.count({ where: { id: { in: memberIds } } });
+        if (found !== memberIds.length) {
+          return res.status(400).json({ message: 'Um ou mais membros não existem' });
+        }
+      }
+
+      const thread = await prisma.chatThread.create({
+        data: {
+          missingPersonId: req.params.caseId,
+          createdById: req.userId,
+          type,
+          visibility: 'PRIVADO',
+          title: title || null,
+          members: {
+            create: [req.userId, ...memberIds].map((userId) => ({ userId, addedById: req.userId })),
+          },
+        },
+        include: { _count: { select: { members: true, messages: true } } },
+      });
+
+      const access = await getThreadAccess(thread, caseData, { userId: req.userId, role: req.userRole });
+      res.status(201).json({ thread: presentThread(thread, access) });
+    } catch (error: any) {
+      console.error('[CHAT] Erro ao criar conversa:', error);
+      res.status(500).json({
+        message: 'Erro ao criar conversa',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Buscar mensagens (thread público em /:caseId/messages, ou um thread específico)
+async function listMessages(req: any, res: any) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  try {
+    const viewer = { userId: req.userId, role: req.userRole };
+    const context = await loadThreadContext(req.params.caseId, req.params.threadId, viewer);
+    if (!context) {
+      return res.status(404).json({ message: 'Conversa não encontrada' });
+    }
+    if (!context.access.canRead) {
+      return res.status(403).json({ message: 'Sem acesso a esta conversa' });
+    }
+
+    const direction = req.query.after ? 'after' : 'before';
+    const cursorId = req.query.after || req.query.before;
+    const limit = parseMessagePageSize(req.query.limit);
+
+    const cursor = cursorId
+      ? await prisma.chatMessage.findFirst({
+          where: { id: String(cursorId), threadId: context.thread.id },
+          select: { id: true, createdAt: true },
+        })
+      : null;
+    if (cursorId && !cursor) {
+      return res.status(400).json({ message: 'Cursor inválido' });
+    }
+
+    // Mensagens ocultas só aparecem para a moderação; removidas não aparecem para ninguém
+    const pageQuery = messagePageQuery(cursor, direction, limit);
+    const [rows, marker, unread] = await Promise.all([
+      prisma.chatMessage.findMany({
+        where: {
+          threadId: context.thread.id,
+          deletedAt: null,
+          ...(isModeratorRole(req.userRole) ? {} : { hiddenAt: null }),
+          ...pageQuery.where,
+        },
         include: {
           sender: {
             select: { id: true, fullName: true },
           },
+          attachments: { select: attachmentSelect },
         },
+        orderBy: pageQuery.orderBy,
+        take: pageQuery.take,
+      }),
+      prisma.chatReadMarker.findUnique({
+        where: { threadId_userId: { threadId: context.thread.id, userId: req.userId } },
+      }),
+      countUnreadByThread([context.thread.id], req.userId),
+    ]);
+    const { items, pagination } = toMessagePage(rows, direction, limit);
+    const aliases = await loadChatAliases(context.thread.id, items);
+
+    res.json({
+      threadId: context.thread.id,
+      messages: items.map((msg) => presentChatMessage(msg, viewer, context.caseData.reporterId, aliases.get(msg.senderId))),
+      pagination,
+      readMarker: marker ? { lastReadMessageId: marker.lastReadMessageId, lastReadAt: marker.lastReadAt } : null,
+      unreadCount: unread.get(context.thread.id) ?? 0,
+    });
+  } catch (error: any) {
+    console.error('Erro ao buscar mensagens:', error);
+    res.status(500).json({ message: error.message || 'Erro ao buscar mensagens' });
+  }
+}
+
+// Enviar mensagem (o acesso ao thread é verificado em sendCaseChatMessage)
+async function postMessage(req: any, res: any) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  try {
+    const result = await sendCaseChatMessage(req.params.caseId, req.userId!, req.body.content, {
+      anonymous: req.body.anonymous === true || req.body.anonymous === 'true',
+      threadId: req.params.threadId,
+      attachmentIds: req.body.attachmentIds,
+    });
+
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.error });
+    }
+
+    res.status(201).json({ message: result.message });
+  } catch (error: any) {
+    console.error('Erro ao enviar mensagem:', error);
+    res.status(500).json({ message: error.message || 'Erro ao enviar mensagem' });
+  }
+}
+
+// O texto pode ficar vazio quando a mensagem leva anexos (validado em sendCaseChatMessage)
+const messageValidators = [
+  body('content').optional().isString().isLength({ max: MAX_CHAT_MESSAGE_LENGTH }),
+  body('anonymous').optional().isBoolean(),
+  body('attachmentIds').optional().isArray({ max: MAX_ATTACHMENTS_PER_MESSAGE }),
+  body('attachmentIds.*').optional().isString(),
+];
+
+const pageValidators = [
+  query('before').optional().isString(),
+  query('after').optional().isString(),
+  query('limit').optional().isInt({ min: 1, max: MAX_MESSAGE_PAGE_SIZE }),
+];
+
+router.get('/:caseId/messages', requireAuth(), [param('caseId').isString(), ...pageValidators], listMessages);
+router.post('/:caseId/messages', requireAuth(), [param('caseId').isString(), ...messageValidators], postMessage);
+router.get(
+  '/:caseId/threads/:threadId/messages',
+  requireAuth(),
+  [param('caseId').isString(), param('threadId').isString(), ...pageValidators],
+  listMessages,
+);
+
+// Marcar o thread como lido até uma mensagem (ou até a mais recente)
+router.put(
+  '/:caseId/threads/:threadId/read',
+  requireAuth(),
+  [param('caseId').isString(), param('threadId').isString(), body('messageId').optional().isString()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const context = await loadThreadContext(req.params.caseId, req.params.threadId, { userId: req.userId, role: req.userRole });
+      if (!context) {
+        return res.status(404).json({ message: 'Conversa não encontrada' });
+      }
+      if (!context.access.canRead) {
+        return res.status(403).json({ message: 'Sem acesso a esta conversa' });
+      }
+
+      const marker = await markThreadRead(context.thread, req.userId, req.body.messageId);
+      if (req.body.messageId && !marker) {
+        return res.status(404).json({ message: 'Mensagem não encontrada' });
+      }
+
+      res.json({
+        threadId: context.thread.id,
+        lastReadMessageId: marker?.lastReadMessageId ?? null,
+        lastReadAt: marker?.lastReadAt ?? null,
+      });
+    } catch (error: any) {
+      console.error('[CHAT] Erro ao marcar como lido:', error);
+      res.status(500).json({
+        message: 'Erro ao marcar conversa como lida',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+router.post(
+  '/:caseId/threads/:threadId/messages',
+  requireAuth(),
+  [param('caseId').isString(), param('threadId').isString(), ...messageValidators],
+  postMessage,
+);
+
+// Listar membros de um thread privado
+router.get(
+  '/:caseId/threads/:threadId/members',
+  requireAuth(),
+  [param('caseId').isString(), param('threadId').isString()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const context = await loadThreadContext(req.params.caseId, req.params.threadId, { userId: req.userId, role: req.userRole });
+      if (!context) {
+        return res.status(404).json({ message: 'Conversa não encontrada' });
+      }
+      if (!context.access.canRead) {
+        return res.status(403).json({ message: 'Sem acesso a esta conversa' });
+      }
+
+      const members = await prisma.chatThreadMember.findMany({
+        where: { threadId: context.thread.id },
+        include: { user: { select: { id: true, fullName: true, role: true } } },
         orderBy: { createdAt: 'asc' },
       });
 
       res.json({
-        messages: messages.map((msg) => ({
-          id: msg.id,
-          content: msg.content,
-          senderId: msg.senderId,
-          senderName: msg.sender.fullName,
-          createdAt: msg.createdAt.toISOString(),
+        members: members.map((member) => ({
+          userId: member.userId,
+          fullName: member.user.fullName,
+          role: member.user.role,
+          addedById: member.addedById,
+          joinedAt: member.createdAt,
         })),
       });
     } catch (error: any) {
-      console.error('Erro ao buscar mensagens:', error);
-      res.status(500).json({ message: error.message || 'Erro ao buscar mensagens' });
+      console.error('[CHAT] Erro ao listar membros:', error);
+      res.status(500).json({
+        message: 'Erro ao listar membros da conversa',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
     }
   },
 );
 
-// Enviar mensagem
+// Adicionar membro a um thread privado
 router.post(
-  '/:caseId/messages',
+  '/:caseId/threads/:threadId/members',
+  requireAuth(),
+  [param('caseId').isString(), param('threadId').isString(), body('userId').isString()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const context = await loadThreadContext(req.params.caseId, req.params.threadId, { userId: req.userId, role: req.userRole });
+      if (!context) {
+        return res.status(404).json({ message: 'Conversa não encontrada' });
+      }
+      if (context.thread.visibility === 'PUBLICO') {
+        return res.status(400).json({ message: 'A conversa pública não tem membros' });
+      }
+      if (!context.access.canManage) {
+        return res.status(403).json({ message: 'Sem permissão para gerir os membros desta conversa' });
+      }
+
+      const user = await prisma.user.findUnique({ where: { id: req.body.userId }, select: { id: true, fullName: true } });
+      if (!user) {
+        return res.status(404).json({ message: 'Usuário não encontrado' });
+      }
+
+      const member = await prisma.chatThreadMember.upsert({
+        where: { threadId_userId: { threadId: context.thread.id, userId: user.id } },
+        update: {},
+        create: { threadId: context.thread.id, userId: user.id, addedById: req.userId },
+      });
+
+      res.status(201).json({ member: { userId: member.userId, fullName: user.fullName, joinedAt: member.createdAt } });
+    } catch (error: any) {
+      console.error('[CHAT] Erro ao adicionar membro:', error);
+      res.status(500).json({
+        message: 'Erro ao adicionar membro à conversa',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Remover membro (quem gere o thread) ou sair do thread (o próprio membro)
+router.delete(
+  '/:caseId/threads/:threadId/members/:userId',
   requireAuth(),
+  [param('caseId').isString(), param('threadId').isString(), param('userId').isString()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const context = await loadThreadContext(req.params.caseId, req.params.threadId, { userId: req.userId, role: req.userRole });
+      if (!context) {
+        return res.status(404).json({ message: 'Conversa não encontrada' });
+      }
+      if (!context.access.canManage && req.params.userId !== req.userId) {
+        return res.status(403).json({ message: 'Sem permissão para gerir os membros desta conversa' });
+      }
+
+      const { count } = await prisma.chatThreadMember.deleteMany({
+        where: { threadId: context.thread.id, userId: req.params.userId },
+      });
+      if (count === 0) {
+        return res.status(404).json({ message: 'Membro não encontrado' });
+      }
+
+      // Retirar o usuário da sala em tempo real, se estiver conectado
+      getIO().in(`user:${req.params.userId}`).socketsLeave(`thread:${context.thread.id}`);
+
+      res.json({ removed: true });
+    } catch (error: any) {
+      console.error('[CHAT] Erro ao remover membro:', error);
+      res.status(500).json({
+        message: 'Erro ao remover membro da conversa',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Revelar a identidade de quem enviou uma dica anónima (apenas ADMIN/AUTORIDADE, sempre auditado)
+router.post(
+  '/:caseId/messages/:messageId/reveal',
+  requireAuth(['ADMIN', 'AUTORIDADE']),
   [
     param('caseId').isString(),
-    body('content').isString().isLength({ min: 1, max: 1000 }),
+    param('messageId').isString(),
+    body('reason').isString().trim().isLength({ min: 5, max: 500 }),
   ],
-  async (req, res) => {
+  async (req: any, res: any) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       return res.status(400).json({ errors: errors.array() });
     }
 
     try {
-      const thread = await getOrCreateChatThread(req.params.caseId);
-      
-      const message = await prisma.chatMessage.create({
-        data: {
-          threadId: thread.id,
-          senderId: req.userId!,
-          content: req.body.content,
-        },
+      const { caseId, messageId } = req.params;
+      const message = await prisma.chatMessage.findFirst({
+        where: { id: messageId, thread: { missingPersonId: caseId } },
         include: {
-          sender: {
-            select: { id: true, fullName: true },
+          sender: { select: { id: true, fullName: true, email: true, phone: true } },
+        },
+      });
+
+      if (!message) {
+        return res.status(404).json({ message: 'Mensagem não encontrada' });
+      }
+      if (!message.isAnonymous) {
+        return res.status(400).json({ message: 'A mensagem não é anónima' });
+      }
+
+      const alias = await prisma.chatAlias.findUnique({
+        where: { threadId_userId: { threadId: message.threadId, userId: message.senderId } },
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'REVEAL_ANONYMOUS_TIPSTER',
+          entityType: 'CHAT_MESSAGE',
+          entityId: message.id,
+          details: `Identidade do informante anónimo #${alias?.number ?? '?'} revelada no caso ${caseId}`,
+          metadata: {
+            caseId,
+            threadId: message.threadId,
+            messageId: message.id,
+            tipsterNumber: alias?.number ?? null,
+            revealedUserId: message.senderId,
+            reason: req.body.reason,
           },
+          ipAddress: req.ipAddress,
+          userAgent: req.userAgent,
         },
       });
 
-      // Buscar informações do caso para notificação
-      const caseData = await prisma.missingPerson.findUnique({
-        where: { id: req.params.caseId },
-        select: { reporterId: true },
+      console.log(`[CHAT] Identidade do informante da mensagem ${message.id} revelada por ${req.userId}`);
+
+      res.json({
+        messageId: message.id,
+        tipsterNumber: alias?.number ?? null,
+        pseudonym: alias?.pseudonym ?? null,
+        sender: message.sender,
+      });
+    } catch (error: any) {
+      console.error('[CHAT] Erro ao revelar identidade:', error);
+      res.status(500).json({
+        message: 'Erro ao revelar identidade do informante',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
       });
+    }
+  },
+);
 
-      // Enviar via Socket.IO para todos no chat
-      const io = getIO();
-      io.to(`case:${req.params.caseId}`).emit('new-message', {
-        caseId: req.params.caseId,
-        message: message.content,
-        senderId: message.senderId,
-        senderName: message.sender.fullName,
-        createdAt: message.createdAt.toISOString(),
-      });
-
-      // Notificações em tempo real APENAS entre reporter e o outro usuário:
-      
-      // 1. Se o sender NÃO é o reporter, notificar APENAS o reporter
-      if (caseData?.reporterId && caseData.reporterId !== req.userId) {
-        console.log(`[CHAT] Enviando notificação para reporter ${caseData.reporterId} sobre mensagem de ${req.userId}`);
-        io.to(`user:${caseData.reporterId}`).emit('notification', {
-          type: 'new_chat_message',
-          title: 'Nova mensagem no chat do seu caso',
-          message: `${message.sender.fullName}: ${message.content.substring(0, 50)}${message.content.length > 50 ? '...' : ''}`,
-          caseId: req.params.caseId,
-        });
+// Registo de auditoria das ações de moderação do chat
+async function logChatModeration(
+  req: any,
+  action: string,
+  entityType: string,
+  entityId: string,
+  details: string,
+  metadata: Record<string, unknown>,
+) {
+  try {
+    await prisma.auditLog.create({
+      data: {
+        userId: req.userId,
+        action,
+        entityType,
+        entityId,
+        details,
+        metadata: metadata as any,
+        ipAddress: req.ipAddress,
+        userAgent: req.userAgent,
+      },
+    });
+  } catch (error) {
+    console.error('Erro ao criar log de auditoria:', error);
+  }
+}
+
+async function findCaseMessage(caseId: string, messageId: string) {
+  return prisma.chatMessage.findFirst({
+    where: { id: messageId, deletedAt: null, thread: { missingPersonId: caseId } },
+    include: { thread: true },
+  });
+}
+
+// Denunciar uma mensagem (qualquer usuário com acesso ao thread)
+router.post(
+  '/:caseId/messages/:messageId/flag',
+  requireAuth(),
+  [
+    param('caseId').isString(),
+    param('messageId').isString(),
+    body('reason').isString().trim().isLength({ min: 3, max: 500 }),
+  ],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const message = await findCaseMessage(req.params.caseId, req.params.messageId);
+      if (!message) {
+        return res.status(404).json({ message: 'Mensagem não encontrada' });
       }
 
-      // 2. Se o sender É o reporter, notificar APENAS o último usuário que enviou mensagem (conversa 1-1)
-      if (caseData?.reporterId && caseData.reporterId === req.userId) {
-        // Buscar a última mensagem antes desta (para saber com quem o reporter está conversando)
-        const thread = await prisma.chatThread.findFirst({
-          where: { missingPersonId: req.params.caseId },
-        });
+      const context = await loadThreadContext(req.params.caseId, message.threadId, { userId: req.userId, role: req.userRole });
+      if (!context?.access.canRead) {
+        return res.status(403).json({ message: 'Sem acesso a esta conversa' });
+      }
+      if (message.senderId === req.userId) {
+        return res.status(400).json({ message: 'Não é possível denunciar a própria mensagem' });
+      }
 
-        if (thread) {
-          // Buscar a última mensagem que não foi do reporter
-          const lastMessage = await prisma.chatMessage.findFirst({
-            where: { 
-              threadId: thread.id,
-              senderId: { not: req.userId },
+      const existing = await prisma.chatMessageFlag.findUnique({
+        where: { messageId_reporterId: { messageId: message.id, reporterId: req.userId } },
+      });
+      if (existing) {
+        return res.status(400).json({ message: 'Você já denunciou esta mensagem' });
+      }
+
+      const flag = await prisma.chatMessageFlag.create({
+        data: { messageId: message.id, reporterId: req.userId, reason: req.body.reason },
+      });
+
+      await logChatModeration(req, 'FLAG_CHAT_MESSAGE', 'CHAT_MESSAGE', message.id, 'Mensagem do chat denunciada', {
+        caseId: req.params.caseId,
+        threadId: message.threadId,
+        flagId: flag.id,
+        reason: req.body.reason,
+      });
+
+      res.status(201).json({ flag });
+    } catch (error: any) {
+      console.error('[CHAT] Erro ao denunciar mensagem:', error);
+      res.status(500).json({
+        message: 'Erro ao denunciar mensagem',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Fila de denúncias de mensagens (moderação)
+router.get(
+  '/flags',
+  requireAuth(['MODERADOR', 'ADMIN']),
+  [
+    query('status').optional().isIn(['PENDENTE', 'EM_ANALISE', 'ACEITE', 'REJEITADO']),
+    query('page').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 100 }),
+  ],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const pageNumber = req.query.page ? parseInt(String(req.query.page), 10) : 1;
+      const pageSize = req.query.limit ? parseInt(String(req.query.limit), 10) : 20;
+      const whereClause = { status: (req.query.status as any) ?? 'PENDENTE' };
+
+      const [total, flags] = await Promise.all([
+        prisma.chatMessageFlag.count({ where: whereClause }),
+        prisma.chatMessageFlag.findMany({
+          where: whereClause,
+          include: {
+            reporter: { select: { id: true, fullName: true } },
+            message: {
+              select: {
+                id: true,
+                content: true,
+                senderId: true,
+                isAnonymous: true,
+                hiddenAt: true,
+                deletedAt: true,
+                createdAt: true,
+                thread: { select: { id: true, missingPersonId: true, type: true, visibility: true } },
+              },
             },
-            orderBy: { createdAt: 'desc' },
-            select: { senderId: true },
-          });
+          },
+          orderBy: { createdAt: 'asc' },
+          skip: (pageNumber - 1) * pageSize,
+          take: pageSize,
+        }),
+      ]);
+
+      // Mensagens anónimas: sem senderId, apenas o número do informante (a identidade exige revelação auditada)
+      const anonymous = flags.filter((flag) => flag.message.isAnonymous);
+      const aliases = anonymous.length
+        ? await prisma.chatAlias.findMany({
+            where: {
+              OR: anonymous.map((flag) => ({ threadId: flag.message.thread.id, userId: flag.message.senderId })),
+            },
+            select: { threadId: true, userId: true, number: true },
+          })
+        : [];
+      const tipsterNumber = (threadId: string, userId: string) =>
+        aliases.find((alias) => alias.threadId === threadId && alias.userId === userId)?.number ?? null;
+
+      const totalPages = Math.ceil(total / pageSize);
 
-          // Se encontrou uma mensagem anterior, notificar apenas esse usuário
-          if (lastMessage) {
-            console.log(`[CHAT] Enviando notificação para ${lastMessage.senderId} sobre mensagem do reporter ${req.userId}`);
-            io.to(`user:${lastMessage.senderId}`).emit('notification', {
-              type: 'new_chat_message',
-              title: 'Nova mensagem do autor do caso',
-              message: `${message.sender.fullName}: ${message.content.substring(0, 50)}${message.content.length > 50 ? '...' : ''}`,
-              caseId: req.params.caseId,
-            });
+      res.json({
+        flags: flags.map((flag) => {
+          if (!flag.message.isAnonymous) {
+            return flag;
           }
-        }
+          const { senderId, ...message } = flag.message;
+          return { ...flag, message: { ...message, senderId: null, tipsterNumber: tipsterNumber(message.thread.id, senderId) } };
+        }),
+        pagination: {
+          page: pageNumber,
+          limit: pageSize,
+          total,
+          totalPages,
+          hasNextPage: pageNumber < totalPages,
+          hasPrevPage: pageNumber > 1,
+        },
+      });
+    } catch (error: any) {
+      console.error('[CHAT] Erro ao listar denúncias:', error);
+      res.status(500).json({
+        message: 'Erro ao listar denúncias de mensagens',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Rever uma denúncia
+router.patch(
+  '/flags/:flagId',
+  requireAuth(['MODERADOR', 'ADMIN']),
+  [param('flagId').isString(), body('status').isIn(['EM_ANALISE', 'ACEITE', 'REJEITADO'])],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const existing = await prisma.chatMessageFlag.findUnique({ where: { id: req.params.flagId } });
+      if (!existing) {
+        return res.status(404).json({ message: 'Denúncia não encontrada' });
+      }
+
+      const flag = await prisma.chatMessageFlag.update({
+        where: { id: existing.id },
+        data: { status: req.body.status, reviewedById: req.userId, reviewedAt: new Date() },
+      });
+
+      await logChatModeration(req, 'REVIEW_CHAT_FLAG', 'CHAT_MESSAGE', flag.messageId, `Denúncia marcada como ${flag.status}`, {
+        flagId: flag.id,
+        oldStatus: existing.status,
+        newStatus: flag.status,
+      });
+
+      res.json({ flag });
+    } catch (error: any) {
+      console.error('[CHAT] Erro ao rever denúncia:', error);
+      res.status(500).json({
+        message: 'Erro ao rever denúncia',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Ocultar/mostrar uma mensagem (moderação)
+router.patch(
+  '/:caseId/messages/:messageId/hide',
+  requireAuth(['MODERADOR', 'ADMIN']),
+  [
+    param('caseId').isString(),
+    param('messageId').isString(),
+    body('hidden').optional().isBoolean(),
+    body('reason').optional().isString().trim().isLength({ max: 500 }),
+  ],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const message = await findCaseMessage(req.params.caseId, req.params.messageId);
+      if (!message) {
+        return res.status(404).json({ message: 'Mensagem não encontrada' });
       }
 
-      res.status(201).json({
-        message: {
-          id: message.id,
-          content: message.content,
-          senderId: message.senderId,
-          senderName: message.sender.fullName,
-          createdAt: message.createdAt.toISOString(),
+      const hidden = req.body.hidden !== false;
+      await prisma.chatMessage.update({
+        where: { id: message.id },
+        data: hidden
+          ? { hiddenAt: new Date(), hiddenById: req.userId, hiddenReason: req.body.reason || null }
+          : { hiddenAt: null, hiddenById: null, hiddenReason: null },
+      });
+
+      await logChatModeration(
+        req,
+        hidden ? 'HIDE_CHAT_MESSAGE' : 'UNHIDE_CHAT_MESSAGE',
+        'CHAT_MESSAGE',
+        message.id,
+        hidden ? 'Mensagem do chat ocultada' : 'Mensagem do chat voltou a ficar visível',
+        {
+          caseId: req.params.caseId,
+          threadId: message.threadId,
+          ...(await moderationSenderRef(message)),
+          reason: req.body.reason || null,
         },
+      );
+
+      // Os clientes removem (ou voltam a carregar) a mensagem de imediato
+      emitChatThreadEvent(message.thread, hidden ? 'message-hidden' : 'message-restored', { messageId: message.id });
+
+      res.json({ id: message.id, hidden });
+    } catch (error: any) {
+      console.error('[CHAT] Erro ao ocultar mensagem:', error);
+      res.status(500).json({
+        message: 'Erro ao ocultar mensagem',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
       });
+    }
+  },
+);
+
+// Remover uma mensagem (moderação, ou o próprio autor)
+router.delete(
+  '/:caseId/messages/:messageId',
+  requireAuth(),
+  [param('caseId').isString(), param('messageId').isString()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const message = await findCaseMessage(req.params.caseId, req.params.messageId);
+      if (!message) {
+        return res.status(404).json({ message: 'Mensagem não encontrada' });
+      }
+      if (!isModeratorRole(req.userRole) && message.senderId !== req.userId) {
+        return res.status(403).json({ message: 'Sem permissão para remover esta mensagem' });
+      }
+
+      await prisma.chatMessage.update({
+        where: { id: message.id },
+        data: { deletedAt: new Date(), deletedById: req.userId },
+      });
+
+      await logChatModeration(req, 'DELETE_CHAT_MESSAGE', 'CHAT_MESSAGE', message.id, 'Mensagem do chat removida', {
+        caseId: req.params.caseId,
+        threadId: message.threadId,
+        ...(await moderationSenderRef(message)),
+        content: message.content,
+        byAuthor: message.senderId === req.userId,
+      });
+
+      emitChatThreadEvent(message.thread, 'message-deleted', { messageId: message.id });
+
+      res.json({ id: message.id, deleted: true });
+    } catch (error: any) {
+      console.error('[CHAT] Erro ao remover mensagem:', error);
+      res.status(500).json({
+        message: 'Erro ao remover mensagem',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Silenciamentos ativos num thread (moderação); os feitos a partir de mensagens anónimas mostram só o número do informante
+router.get(
+  '/:caseId/threads/:threadId/mutes',
+  requireAuth(['MODERADOR', 'ADMIN']),
+  [param('caseId').isString(), param('threadId').isString()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const mutes = await prisma.chatMute.findMany({
+        where: {
+          threadId: req.params.threadId,
+          thread: { missingPersonId: req.params.caseId },
+          expiresAt: { gt: new Date() },
+        },
+        include: { user: { select: { id: true, fullName: true } } },
+        orderBy: { expiresAt: 'desc' },
+      });
+
+      res.json({
+        mutes: mutes.map((mute) => (mute.tipsterNumber === null ? mute : { ...mute, userId: null, user: null })),
+      });
+    } catch (error: any) {
+      console.error('[CHAT] Erro ao listar silenciamentos:', error);
+      res.status(500).json({
+        message: 'Erro ao listar silenciamentos',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+/**
+ * Silenciar um usuário num thread por um período. Aceita userId ou messageId: com uma mensagem anónima
+ * o servidor resolve o remetente sem o expor à moderação. O aviso vai apenas para a sala do próprio usuário.
+ */
+router.post(
+  '/:caseId/threads/:threadId/mutes',
+  requireAuth(['MODERADOR', 'ADMIN']),
+  [
+    param('caseId').isString(),
+    param('threadId').isString(),
+    body('userId').optional().isString(),
+    body('messageId').optional().isString(),
+    body('durationMinutes').isInt({ min: 1, max: 60 * 24 * 30 }),
+    body('reason').optional().isString().trim().isLength({ max: 500 }),
+  ],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { messageId, durationMinutes, reason } = req.body;
+      if (!req.body.userId === !messageId) {
+        return res.status(400).json({ message: 'Indique userId ou messageId' });
+      }
+
+      const thread = await prisma.chatThread.findFirst({
+        where: { id: req.params.threadId, missingPersonId: req.params.caseId },
+      });
+      if (!thread) {
+        return res.status(404).json({ message: 'Conversa não encontrada' });
+      }
+
+      let userId: string = req.body.userId;
+      let tipsterNumber: number | null = null;
+      if (messageId) {
+        const message = await prisma.chatMessage.findFirst({
+          where: { id: messageId, threadId: thread.id },
+          select: { threadId: true, senderId: true, isAnonymous: true },
+        });
+        if (!message) {
+          return res.status(404).json({ message: 'Mensagem não encontrada' });
+        }
+        userId = message.senderId;
+        if (message.isAnonymous) {
+          tipsterNumber = (await moderationSenderRef(message)).tipsterNumber ?? 0;
+        }
+      }
+
+      const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true, role: true } });
+      if (!user) {
+        return res.status(404).json({ message: 'Usuário não encontrado' });
+      }
+      // Mensagem genérica: com uma mensagem anónima não pode revelar o papel do remetente
+      if (isModeratorRole(user.role)) {
+        return res.status(400).json({ message: 'Não é possível silenciar este participante' });
+      }
+
+      const expiresAt = new Date(Date.now() + Number(durationMinutes) * 60 * 1000);
+      const mute = await prisma.chatMute.create({
+        data: { threadId: thread.id, userId, mutedById: req.userId, reason: reason || null, tipsterNumber, expiresAt },
+      });
+
+      const target = tipsterNumber === null ? { entityType: 'USER', entityId: userId } : { entityType: 'CHAT_MUTE', entityId: mute.id };
+      await logChatModeration(
+        req,
+        'MUTE_CHAT_USER',
+        target.entityType,
+        target.entityId,
+        `Usuário silenciado no chat por ${durationMinutes} minuto(s)`,
+        {
+          caseId: req.params.caseId,
+          threadId: thread.id,
+          muteId: mute.id,
+          ...(tipsterNumber === null ? {} : { messageId, tipsterNumber }),
+          expiresAt: expiresAt.toISOString(),
+          reason: reason || null,
+        },
+      );
+
+      getIO()
+        .to(`user:${userId}`)
+        .emit('user-muted', { caseId: thread.missingPersonId, threadId: thread.id, until: expiresAt.toISOString() });
+
+      res.status(201).json({ mute: tipsterNumber === null ? mute : { ...mute, userId: null } });
     } catch (error: any) {
-      console.error('Erro ao enviar mensagem:', error);
-      res.status(500).json({ message: error.message || 'Erro ao enviar mensagem' });
+      console.error('[CHAT] Erro ao silenciar usuário:', error);
+      res.status(500).json({
+        message: 'Erro ao silenciar usuário',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
     }
   },
 );
 
+/**
+ * Retirar o silenciamento num thread. Aceita o id do silenciamento ou o id do usuário; o id do usuário
+ * só encontra silenciamentos identificados, para não permitir descobrir quem está por trás de um anónimo.
+ */
+router.delete(
+  '/:caseId/threads/:threadId/mutes/:target',
+  requireAuth(['MODERADOR', 'ADMIN']),
+  [param('caseId').isString(), param('threadId').isString(), param('target').isString()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const thread = await prisma.chatThread.findFirst({
+        where: { id: req.params.threadId, missingPersonId: req.params.caseId },
+      });
+      if (!thread) {
+        return res.status(404).json({ message: 'Conversa não encontrada' });
+      }
+
+      const byId = await prisma.chatMute.findFirst({
+        where: { id: req.params.target, threadId: thread.id },
+        select: { userId: true },
+      });
+      const userId = byId?.userId ?? req.params.target;
+
+      const active = byId
+        ? await getActiveChatMute(thread.id, userId)
+        : await prisma.chatMute.findFirst({
+            where: { threadId: thread.id, userId, tipsterNumber: null, expiresAt: { gt: new Date() } },
+            orderBy: { expiresAt: 'desc' },
+          });
+      if (!active) {
+        return res.status(404).json({ message: 'O usuário não está silenciado nesta conversa' });
+      }
+
+      // Encerrar os silenciamentos ativos (mantém o histórico); pelo id do usuário só os identificados
+      await prisma.chatMute.updateMany({
+        where: { threadId: thread.id, userId, expiresAt: { gt: new Date() }, ...(byId ? {} : { tipsterNumber: null }) },
+        data: { expiresAt: new Date() },
+      });
+
+      const anonymous = active.tipsterNumber !== null;
+      await logChatModeration(
+        req,
+        'UNMUTE_CHAT_USER',
+        anonymous ? 'CHAT_MUTE' : 'USER',
+        anonymous ? active.id : userId,
+        'Silenciamento no chat retirado',
+        {
+          caseId: req.params.caseId,
+          threadId: thread.id,
+          ...(anonymous ? { tipsterNumber: active.tipsterNumber } : {}),
+        },
+      );
+
+      getIO().to(`user:${userId}`).emit('user-unmuted', { caseId: thread.missingPersonId, threadId: thread.id });
+
+      res.json({ unmuted: true });
+    } catch (error: any) {
+      console.error('[CHAT] Erro ao retirar silenciamento:', error);
+      res.status(500).json({
+        message: 'Erro ao retirar silenciamento',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
@@ -3,7 +3,13 @@ import { router as authRouter } from './auth.js';
 import { router as missingRouter } from './missing-persons.js';
 import { router as sightingRouter } from './sightings.js';
 import { router as alertsRouter } from './alerts.js';
+import { router as alertSubscriptionsRouter } from './alert-subscriptions.js';
 import { router as volunteerRouter } from './volunteers.js';
+import { router as missionSectorsRouter } from './mission-sectors.js';
+import { router as missionTracksRouter } from './mission-tracks.js';
+import { router as missionGeodataRouter } from './mission-geodata.js';
+import { router as volunteerShiftsRouter } from './volunteer-shifts.js';
+import { router as missionDebriefsRouter } from './mission-debriefs.js';
 import { router as statsRouter } from './stats.js';
 import { router as favoritesRouter } from './favorites.js';
 import { router as adminRouter } from './admin.js';
@@ -26,14 +32,22 @@ import { router as deletedCasesRouter } from './deleted-cases.js';
 import { router as backupsRouter } from './backups.js';
 import { router as announcementsRouter } from './announcements.js';
 import { router as notificationConfigRouter } from './notification-config.js';
+import { router as notificationsRouter } from './notifications.js';
+import { router as notificationPreferencesRouter } from './notification-preferences.js';
 
 export const router = Router();
 
 router.use('/auth', authRouter);
 router.use('/missing-persons', missingRouter);
 router.use('/sightings', sightingRouter);
+router.use('/alerts/subscriptions', alertSubscriptionsRouter);
 router.use('/alerts', alertsRouter);
 router.use('/volunteers', volunteerRouter);
+router.use('/volunteers', missionSectorsRouter);
+router.use('/volunteers', missionTracksRouter);
+router.use('/volunteers', missionGeodataRouter);
+router.use('/volunteers', volunteerShiftsRouter);
+router.use('/volunteers', missionDebriefsRouter);
 router.use('/stats', statsRouter);
 router.use('/favorites', favoritesRouter);
 router.use('/admin', adminRouter);
@@ -56,5 +70,7 @@ router.use('/deleted-cases', deletedCasesRouter);
 router.use('/backups', backupsRouter);
 router.use('/announcements', announcementsRouter);
 router.use('/notification-config', notificationConfigRouter);
+router.use('/notifications', notificationsRouter);
+router.use('/notification-preferences', notificationPreferencesRouter);
 
 
@@ -2,10 +2,17 @@ import { Router } from 'express';
 import { body, param, query, validationResult } from 'express-validator';
 import { prisma } from '../lib/prisma.js';
 import { requireAuth, optionalAuth } from '../middleware/auth.js';
-import { emitNotification } from '../lib/socket.js';
+import { dispatchNotification } from '../services/notification-dispatch-service.js';
+import { notifyMissionsCaseFound } from '../services/mission-service.js';
+import { boundingBox, haversineKm, resolveLastKnownPosition } from '../lib/geo.js';
+import { canViewCase } from '../lib/case-access.js';
+import { GEO_EXPORT_FORMATS, renderGeoFile, type GeoDocument, type GeoExportFormat } from '../lib/geo-formats.js';
 
 export const router = Router();
 
+// Raio padrão (km) da pesquisa geográfica, igual ao padrão das subscrições de alerta
+const DEFAULT_SEARCH_RADIUS_KM = 25;
+
 const createValidators = [
   body('fullName').isString(),
   body('age').optional().isInt({ min: 0, max: 120 }),
@@ -44,36 +51,15 @@ router.post('/', requireAuth(['CIDADAO', 'FAMILIAR', 'MODERADOR', 'ADMIN']), cre
     },
   });
 
-  // Notificar moderadores sobre novo caso pendente em tempo real
+  // Notificar moderadores sobre novo caso pendente em tempo real (destinatários em NotificationConfig.targetRoles)
   // Usar setTimeout com delay pequeno para garantir que o caso foi salvo no banco
   setTimeout(async () => {
-    try {
-      const moderators = await prisma.user.findMany({
-        where: { role: { in: ['MODERADOR', 'ADMIN'] } },
-        select: { id: true, fullName: true, email: true },
-      });
-      
-      if (moderators.length === 0) {
-        console.log('[CASOS] Nenhum moderador encontrado para notificar');
-        return;
-      }
-      
-      console.log(`[CASOS] Notificando ${moderators.length} moderador(es) sobre novo caso: ${missingPerson.fullName} (ID: ${missingPerson.id})`);
-      console.log(`[CASOS] Caso criado com approved: ${(missingPerson as any).approved}`);
-      
-      for (const mod of moderators) {
-        console.log(`[CASOS] Enviando notificação para moderador: ${mod.fullName} (${mod.id})`);
-        emitNotification({
-          userId: mod.id,
-          type: 'new_pending_case',
-          title: 'Novo caso pendente de aprovação',
-          message: `Novo caso reportado: ${missingPerson.fullName} - ${missingPerson.province}`,
-          metadata: { caseId: missingPerson.id },
-        });
-      }
-    } catch (error) {
-      console.error('[CASOS] Erro ao enviar notificação para moderadores:', error);
-    }
+    console.log(`[CASOS] Notificando sobre novo caso: ${missingPerson.fullName} (ID: ${missingPerson.id})`);
+    await dispatchNotification('new_case', {
+      variables: { caseName: missingPerson.fullName, province: missingPerson.province },
+      excludeUserIds: [req.userId],
+      metadata: { caseId: missingPerson.id },
+    });
   }, 200); // Delay de 200ms para garantir que o caso foi salvo
 
   // Verificar e atribuir badges
@@ -99,9 +85,23 @@ router.get(
     query('priority').optional().isString(),
     query('page').optional().isInt({ min: 1 }),
     query('limit').optional().isInt({ min: 1, max: 100 }),
+    query('lat').optional().isFloat({ min: -90, max: 90 }),
+    query('lng').optional().isFloat({ min: -180, max: 180 }),
+    query('radiusKm').optional().isFloat({ min: 0.1, max: 500 }),
   ],
   async (req: any, res: any) => {
-    const { name, province, municipality, gender, status, priority, page, limit } = req.query;
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { name, province, municipality, gender, status, priority, page, limit, lat, lng, radiusKm } = req.query;
+
+    // Pesquisa por raio: lat e lng são obrigatórios em conjunto
+    const hasGeoFilter = lat !== undefined || lng !== undefined;
+    if (hasGeoFilter && (lat === undefined || lng === undefined)) {
+      return res.status(400).json({ message: 'Os parâmetros lat e lng devem ser enviados em conjunto' });
+    }
     
     // Verificar se o usuário está autenticado e qual é o seu papel
     const userRole = req.userRole;
@@ -157,6 +157,80 @@ router.get(
       const pageSize = limit ? parseInt(String(limit), 10) : 10;
       const skip = (pageNumber - 1) * pageSize;
 
+      const listInclude = {
+        photos: true,
+        sightings: true,
+        reporter: {
+          select: { fullName: true, email: true, phone: true },
+        },
+      };
+
+      if (hasGeoFilter) {
+        const center = { latitude: Number(lat), longitude: Number(lng) };
+        const radius = radiusKm ? Number(radiusKm) : DEFAULT_SEARCH_RADIUS_KM;
+        const box = boundingBox(center, radius);
+
+        if (!isModeratorOrAdmin) {
+          whereClause.isDeleted = false;
+        }
+
+        // Pré-filtro por retângulo no banco (último sinal ou avistamento validado);
+        // a distância exata é calculada depois sobre a última posição conhecida
+        whereClause.AND = [
+          {
+            OR: [
+              {
+                lastSignalLat: { gte: box.minLat, lte: box.maxLat },
+                lastSignalLng: { gte: box.minLng, lte: box.maxLng },
+              },
+              {
+                sightings: {
+                  some: {
+                    status: 'VALIDADO',
+                    latitude: { gte: box.minLat, lte: box.maxLat },
+                    longitude: { gte: box.minLng, lte: box.maxLng },
+                  },
+                },
+              },
+            ],
+          },
+        ];
+
+        const candidates = await prisma.missingPerson.findMany({
+          where: whereClause,
+          include: listInclude,
+        });
+
+        const nearby = candidates
+          .map((person) => {
+            const position = resolveLastKnownPosition(person);
+            const distanceKm = position ? haversineKm(center, position) : null;
+            return { ...person, distanceKm: distanceKm !== null ? Math.round(distanceKm * 100) / 100 : null };
+          })
+          .filter((person) => person.distanceKm !== null && person.distanceKm <= radius)
+          .sort((a, b) => a.distanceKm! - b.distanceKm!);
+
+        const total = nearby.length;
+        const totalPages = Math.ceil(total / pageSize);
+
+        return res.json({
+          items: nearby.slice(skip, skip + pageSize),
+          pagination: {
+            page: pageNumber,
+            limit: pageSize,
+            total,
+            totalPages,
+            hasNextPage: pageNumber < totalPages,
+            hasPrevPage: pageNumber > 1,
+          },
+          search: {
+            lat: center.latitude,
+            lng: center.longitude,
+            radiusKm: radius,
+          },
+        });
+      }
+
       // Contar total de casos
       const total = await prisma.missingPerson.count({ where: whereClause });
 
@@ -169,13 +243,7 @@ router.get(
 
       const missingPeople = await prisma.missingPerson.findMany({
         where: whereClause,
-        include: {
-          photos: true,
-          sightings: true,
-          reporter: {
-            select: { fullName: true, email: true, phone: true },
-          },
-        },
+        include: listInclude,
         orderBy: { createdAt: 'desc' },
         skip,
         take: pageSize,
@@ -208,10 +276,58 @@ router.get('/:id', optionalAuth(), [param('id').isString()], async (req: any, re
   const userRole = req.userRole;
   const userId = req.userId;
   const isModeratorOrAdmin = userRole === 'MODERADOR' || userRole === 'ADMIN';
+  // Conversas com autoridades vinculadas ao caso só aparecem para autoridades
+  const canSeeAuthorityChats = userRole === 'AUTORIDADE' || userRole === 'ADMIN';
+  // Descobertas dos relatórios de missões (histórico operacional) para moderação e autoridades
+  const canSeeDebriefFindings = isModeratorOrAdmin || userRole === 'AUTORIDADE';
 
   const missingPerson = await prisma.missingPerson.findUnique({
     where: { id: req.params.id },
     include: {
+      ...(canSeeAuthorityChats
+        ? {
+            authorityChats: {
+              orderBy: { updatedAt: 'desc' as const },
+              select: {
+                id: true,
+                subject: true,
+                status: true,
+                province: true,
+                agency: true,
+                createdAt: true,
+                updatedAt: true,
+                user: { select: { id: true, fullName: true } },
+                authority: { select: { id: true, fullName: true, role: true } },
+                _count: { select: { messages: true } },
+              },
+            },
+          }
+        : {}),
+      ...(canSeeDebriefFindings
+        ? {
+            debriefFindings: {
+              orderBy: { createdAt: 'desc' as const },
+              select: {
+                id: true,
+                description: true,
+                latitude: true,
+                longitude: true,
+                foundAt: true,
+                evidenceUrls: true,
+                sightingId: true,
+                createdAt: true,
+                debrief: {
+                  select: {
+                    id: true,
+                    sectorCode: true,
+                    author: { select: { id: true, fullName: true } },
+                    mission: { select: { id: true, title: true, status: true } },
+                  },
+                },
+              },
+            },
+          }
+        : {}),
       photos: true,
       sightings: {
         orderBy: { createdAt: 'desc' },
@@ -231,6 +347,23 @@ router.get('/:id', optionalAuth(), [param('id').isString()], async (req: any, re
       reporter: {
         select: { fullName: true, email: true, phone: true },
       },
+      missions: {
+        orderBy: { createdAt: 'desc' },
+        select: {
+          mission: {
+            select: {
+              id: true,
+              title: true,
+              status: true,
+              province: true,
+              municipality: true,
+              startsAt: true,
+              endsAt: true,
+              _count: { select: { participants: true } },
+            },
+          },
+        },
+      },
     },
   });
 
@@ -238,10 +371,12 @@ router.get('/:id', optionalAuth(), [param('id').isString()], async (req: any, re
     return res.status(404).json({ message: 'Caso não encontrado' });
   }
 
+  const activeMissionCount = missingPerson.missions.filter(({ mission }) => mission.status === 'ATIVA').length;
+
   // Verificar se o usuário pode ver este caso
   // Moderadores e Admins sempre podem ver todos os casos
   if (isModeratorOrAdmin) {
-    return res.json({ missingPerson });
+    return res.json({ missingPerson, activeMissionCount });
   }
 
   // Para outros usuários, verificar se o caso está aprovado ou se é o reporter
@@ -251,9 +386,113 @@ router.get('/:id', optionalAuth(), [param('id').isString()], async (req: any, re
     return res.status(403).json({ message: 'Caso ainda não foi aprovado' });
   }
 
-  res.json({ missingPerson });
+  res.json({ missingPerson, activeMissionCount });
 });
 
+// Exportar avistamentos e último ponto conhecido do caso (GPX, KML ou GeoJSON)
+router.get(
+  '/:id/export',
+  requireAuth(),
+  [param('id').isString(), query('format').optional().isIn(Object.keys(GEO_EXPORT_FORMATS))],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const format: GeoExportFormat = req.query.format ?? 'geojson';
+      const missingPerson = await prisma.missingPerson.findUnique({
+        where: { id: req.params.id },
+        select: {
+          id: true,
+          fullName: true,
+          reporterId: true,
+          approved: true,
+          isDeleted: true,
+          lastSeenLocation: true,
+          missingDate: true,
+          lastSignalLat: true,
+          lastSignalLng: true,
+          lastSignalSource: true,
+          sightings: {
+            where: { latitude: { not: null }, longitude: { not: null }, status: { not: 'DESCARTADO' } },
+            select: {
+              latitude: true,
+              longitude: true,
+              status: true,
+              description: true,
+              location: true,
+              createdAt: true,
+            },
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+      });
+
+      if (!missingPerson || !canViewCase(missingPerson, req.userId, req.userRole)) {
+        return res.status(404).json({ message: 'Caso não encontrado' });
+      }
+
+      // Avistamentos por validar só para a equipa e para quem reportou o caso
+      const seesPending =
+        ['MODERADOR', 'ADMIN', 'AUTORIDADE'].includes(req.userRole) || missingPerson.reporterId === req.userId;
+      const sightings = missingPerson.sightings.filter((sighting) => seesPending || sighting.status === 'VALIDADO');
+
+      const doc: GeoDocument = { name: missingPerson.fullName, waypoints: [], tracks: [], areas: [] };
+      const lastKnown = resolveLastKnownPosition(missingPerson);
+      if (lastKnown) {
+        doc.waypoints.push({
+          name: 'Último ponto conhecido',
+          description: missingPerson.lastSeenLocation,
+          ...lastKnown,
+        });
+      }
+      const signalIsLastKnown =
+        lastKnown?.latitude === missingPerson.lastSignalLat && lastKnown?.longitude === missingPerson.lastSignalLng;
+      if (missingPerson.lastSignalLat != null && missingPerson.lastSignalLng != null && !signalIsLastKnown) {
+        doc.waypoints.push({
+          name: 'Último sinal',
+          description: missingPerson.lastSignalSource,
+          latitude: missingPerson.lastSignalLat,
+          longitude: missingPerson.lastSignalLng,
+        });
+      }
+      sightings.forEach((sighting, index) => {
+        doc.waypoints.push({
+          name: `Avistamento ${index + 1}${sighting.status === 'VALIDADO' ? '' : ' (por validar)'}`,
+          description: [sighting.location, sighting.description].filter(Boolean).join(' · ') || null,
+          latitude: sighting.latitude!,
+          longitude: sighting.longitude!,
+          time: sighting.createdAt,
+        });
+      });
+      // Sequência cronológica dos avistamentos, útil para ver a deslocação
+      if (sightings.length > 1) {
+        doc.tracks.push({
+          name: 'Sequência de avistamentos',
+          points: sightings.map((sighting) => ({
+            latitude: sighting.latitude!,
+            longitude: sighting.longitude!,
+            time: sighting.createdAt,
+          })),
+        });
+      }
+
+      const file = renderGeoFile(doc, format, `caso-${missingPerson.id}`);
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.send(file.body);
+    } catch (error: any) {
+      console.error('[CASOS] Erro ao exportar caso:', error);
+      res.status(500).json({
+        message: 'Erro ao exportar caso',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
 router.patch(
   '/:id/status',
   requireAuth(['MODERADOR', 'ADMIN', 'AUTORIDADE']),
@@ -270,7 +509,7 @@ router.patch(
     // Buscar o caso antes de atualizar para obter o reporterId
     const caseBeforeUpdate = await prisma.missingPerson.findUnique({
       where: { id },
-      select: { reporterId: true, fullName: true },
+      select: { reporterId: true, fullName: true, status: true },
     });
 
     if (!caseBeforeUpdate) {
@@ -337,19 +576,16 @@ router.patch(
 
     const statusMessage = statusMessages[status] || `Status alterado para ${status}`;
 
-    try {
-      if (caseBeforeUpdate.reporterId) {
-        const { emitNotification } = await import('../lib/socket.js');
-        emitNotification({
-          userId: caseBeforeUpdate.reporterId,
-          type: 'case_status_changed',
-          title: statusMessage,
-          message: `O status do caso "${caseBeforeUpdate.fullName}" foi alterado para: ${statusMessage}`,
-          metadata: { caseId: id },
-        });
-      }
-    } catch (error) {
-      console.error('Erro ao enviar notificação de mudança de status:', error);
+    await dispatchNotification('case_status_changed', {
+      variables: { caseName: caseBeforeUpdate.fullName, status: statusMessage },
+      userIds: [caseBeforeUpdate.reporterId],
+      title: statusMessage,
+      metadata: { caseId: id },
+    });
+
+    // Participantes das missões de busca ligadas ao caso podem desmobilizar
+    if (status === 'ENCONTRADO' && caseBeforeUpdate.status !== 'ENCONTRADO') {
+      await notifyMissionsCaseFound(id, caseBeforeUpdate.fullName, req.userId);
     }
 
     res.json({ missingPerson: updated });
@@ -414,19 +650,18 @@ router.patch(
     }
 
     // Notificar reporter sobre aprovação/rejeição
-    try {
-      if (updated.reporterId) {
-        emitNotification({
-          userId: updated.reporterId,
-          type: approved ? 'case_approved' : 'case_rejected',
-          title: approved ? 'Caso aprovado' : 'Caso rejeitado',
-          message: approved
-            ? `Seu caso "${updated.fullName}" foi aprovado e está agora público.`
-            : `Seu caso "${updated.fullName}" foi rejeitado. Motivo: ${rejectionReason || 'Não especificado'}`,
-        });
-      }
-    } catch (error) {
-      console.error('Erro ao enviar notificação:', error);
+    if (approved) {
+      await dispatchNotification('case_approved', {
+        variables: { caseName: updated.fullName },
+        userIds: [updated.reporterId],
+        metadata: { caseId: id },
+      });
+    } else {
+      await dispatchNotification('case_rejected', {
+        variables: { caseName: updated.fullName, reason: rejectionReason || 'Não especificado' },
+        userIds: [updated.reporterId],
+        metadata: { caseId: id },
+      });
     }
 
     res.json({ missingPerson: updated });
@@ -475,6 +710,8 @@ router.put(
       if (req.body.priority !== undefined) updateData.priority = req.body.priority;
       if (req.body.status !== undefined) updateData.status = req.body.status;
 
+      const previous = await prisma.missingPerson.findUnique({ where: { id }, select: { status: true } });
+
       const updated = await prisma.missingPerson.update({
         where: { id, isDeleted: false },
         data: updateData,
@@ -499,6 +736,10 @@ router.put(
         },
       });
 
+      if (updated.status === 'ENCONTRADO' && previous?.status !== 'ENCONTRADO') {
+        await notifyMissionsCaseFound(id, updated.fullName, req.userId);
+      }
+
       res.json({ missingPerson: updated });
     } catch (error: any) {
       console.error('[CASOS] Erro ao editar caso:', error);
@@ -0,0 +1,211 @@
+import { Router } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { prisma } from '../lib/prisma.js';
+import { requireAuth } from '../middleware/auth.js';
+import { canViewMissionTracks, getMissionAccess } from '../services/mission-service.js';
+import { convertFindingToSighting, createDebrief, debriefInclude } from '../services/mission-debrief-service.js';
+
+export const router = Router();
+
+const MAX_FINDINGS_PER_DEBRIEF = 50;
+const MAX_EVIDENCE_URLS = 10;
+
+/**
+ * Registar o relatório de balanço da missão (sem sectorId) ou de um setor.
+ * Quem gere a missão pode relatar tudo; os voluntários atribuídos a um setor podem relatar esse setor.
+ * As descobertas sem caso indicado ficam ligadas ao caso da missão quando há apenas um.
+ */
+router.post(
+  '/missions/:missionId/debriefs',
+  requireAuth(),
+  [
+    param('missionId').isString(),
+    body('sectorId').optional({ nullable: true }).isString(),
+    body('summary').isString().trim().isLength({ min: 1, max: 5000 }),
+    body('uncoveredAreas').optional({ nullable: true }).isString().isLength({ max: 2000 }),
+    body('uncoveredSectorIds').optional().isArray({ max: 400 }),
+    body('uncoveredSectorIds.*').optional().isString(),
+    body('recommendations').optional({ nullable: true }).isString().isLength({ max: 5000 }),
+    body('evidenceUrls').optional().isArray({ max: MAX_EVIDENCE_URLS }),
+    body('evidenceUrls.*').optional().isString().isLength({ max: 500 }),
+    body('findings').optional().isArray({ max: MAX_FINDINGS_PER_DEBRIEF }),
+    body('findings.*.description').optional().isString().trim().isLength({ min: 1, max: 2000 }),
+    body('findings.*.caseId').optional({ nullable: true }).isString(),
+    body('findings.*.latitude').optional({ nullable: true }).isFloat({ min: -90, max: 90 }).toFloat(),
+    body('findings.*.longitude').optional({ nullable: true }).isFloat({ min: -180, max: 180 }).toFloat(),
+    body('findings.*.foundAt').optional({ nullable: true }).isISO8601(),
+    body('findings.*.evidenceUrls').optional().isArray({ max: MAX_EVIDENCE_URLS }),
+    body('findings.*.evidenceUrls.*').optional().isString().isLength({ max: 500 }),
+  ],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missionId } = req.params;
+      const { sectorId } = req.body;
+      const findings: any[] = req.body.findings ?? [];
+
+      const access = await getMissionAccess(missionId, { userId: req.userId, role: req.userRole });
+      if (!access) {
+        return res.status(404).json({ message: 'Missão não encontrada' });
+      }
+      if (access.mission.status === 'PLANEJADA') {
+        return res.status(400).json({ message: 'A missão ainda não começou' });
+      }
+
+      let sector = null;
+      if (sectorId) {
+        sector = await prisma.missionSector.findFirst({
+          where: { id: sectorId, missionId },
+          select: { id: true, code: true, assignments: { select: { userId: true } } },
+        });
+        if (!sector) {
+          return res.status(404).json({ message: 'Setor não encontrado' });
+        }
+      }
+      const isAssigned =
+        Boolean(access.participation) &&
+        (sector?.assignments.some((assignment) => assignment.userId === req.userId) ?? false);
+      if (!access.canManage && !isAssigned) {
+        return res.status(403).json({
+          message: sector
+            ? 'Apenas voluntários atribuídos ao setor podem relatar este setor'
+            : 'Sem permissão para relatar esta missão',
+        });
+      }
+
+      if (findings.some((finding) => !finding.description)) {
+        return res.status(400).json({ message: 'Cada descoberta precisa de uma descrição' });
+      }
+      if (findings.some((finding) => (finding.latitude == null) !== (finding.longitude == null))) {
+        return res.status(400).json({ message: 'Indique latitude e longitude em conjunto' });
+      }
+
+      const linkedCases = await prisma.missionCase.findMany({ where: { missionId }, select: { missingPersonId: true } });
+      const linkedCaseIds = linkedCases.map((link) => link.missingPersonId);
+      if (findings.some((finding) => finding.caseId && !linkedCaseIds.includes(finding.caseId))) {
+        return res.status(400).json({ message: 'As descobertas só podem referir casos ligados à missão' });
+      }
+      const defaultCaseId = linkedCaseIds.length === 1 ? linkedCaseIds[0] : null;
+
+      const uncoveredSectorIds: string[] = Array.from(new Set(req.body.uncoveredSectorIds ?? []));
+      const uncoveredSectors = await prisma.missionSector.findMany({
+        where: { missionId, id: { in: uncoveredSectorIds } },
+        select: { code: true },
+        orderBy: [{ row: 'asc' }, { col: 'asc' }],
+      });
+      if (uncoveredSectors.length !== uncoveredSectorIds.length) {
+        return res.status(400).json({ message: 'Setores não cobertos inválidos' });
+      }
+
+      const debrief = await createDebrief({
+        missionId,
+        missionTitle: access.mission.title,
+        sector: sector ? { id: sector.id, code: sector.code } : null,
+        authorId: req.userId,
+        summary: req.body.summary,
+        uncoveredAreas: req.body.uncoveredAreas || null,
+        uncoveredSectorCodes: uncoveredSectors.map((uncovered) => uncovered.code),
+        recommendations: req.body.recommendations || null,
+        evidenceUrls: req.body.evidenceUrls ?? [],
+        findings: findings.map((finding) => ({
+          description: finding.description,
+          missingPersonId: finding.caseId || defaultCaseId,
+          latitude: finding.latitude ?? null,
+          longitude: finding.longitude ?? null,
+          foundAt: finding.foundAt ? new Date(finding.foundAt) : null,
+          evidenceUrls: finding.evidenceUrls ?? [],
+        })),
+      });
+
+      res.status(201).json({ debrief });
+    } catch (error: any) {
+      console.error('[MISSION_DEBRIEFS] Erro ao registar relatório:', error);
+      res.status(500).json({
+        message: 'Erro ao registar relatório da missão',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Relatórios da missão e dos setores; pendingMissionDebrief indica missão concluída sem relatório geral
+router.get('/missions/:missionId/debriefs', requireAuth(), [param('missionId').isString()], async (req: any, res: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  try {
+    const { missionId } = req.params;
+    const access = await getMissionAccess(missionId, { userId: req.userId, role: req.userRole });
+    if (!access) {
+      return res.status(404).json({ message: 'Missão não encontrada' });
+    }
+    if (!canViewMissionTracks(access)) {
+      return res.status(403).json({ message: 'Acesso negado aos relatórios desta missão' });
+    }
+
+    const debriefs = await prisma.missionDebrief.findMany({
+      where: { missionId },
+      include: debriefInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({
+      debriefs,
+      pendingMissionDebrief:
+        access.mission.status === 'CONCLUIDA' && !debriefs.some((debrief) => debrief.sectorCode === null),
+    });
+  } catch (error: any) {
+    console.error('[MISSION_DEBRIEFS] Erro ao listar relatórios:', error);
+    res.status(500).json({
+      message: 'Erro ao listar relatórios da missão',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+});
+
+// Converter uma descoberta num avistamento validado do caso (moderação)
+router.post(
+  '/missions/:missionId/debriefs/findings/:findingId/sighting',
+  requireAuth(['MODERADOR', 'ADMIN']),
+  [
+    param('missionId').isString(),
+    param('findingId').isString(),
+    body('caseId').optional().isString(),
+    body('province').optional().isString().notEmpty(),
+    body('municipality').optional().isString().notEmpty(),
+    body('location').optional().isString().notEmpty(),
+  ],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missionId, findingId } = req.params;
+      const result = await convertFindingToSighting(missionId, findingId, req.userId, {
+        missingPersonId: req.body.caseId,
+        province: req.body.province,
+        municipality: req.body.municipality,
+        location: req.body.location,
+      });
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.error });
+      }
+
+      res.status(201).json({ sighting: result.sighting });
+    } catch (error: any) {
+      console.error('[MISSION_DEBRIEFS] Erro ao converter descoberta:', error);
+      res.status(500).json({
+        message: 'Erro ao converter descoberta em avistamento',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
@@ -0,0 +1,236 @@
+import { Router } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { prisma } from '../lib/prisma.js';
+import { requireAuth } from '../middleware/auth.js';
+import {
+  GEO_EXPORT_FORMATS,
+  isValidImportedFeature,
+  parseGeoJSON,
+  parseGpx,
+  renderGeoFile,
+  type GeoDocument,
+  type GeoExportFormat,
+  type ImportedFeature,
+} from '../lib/geo-formats.js';
+import type { SearchAreaPolygon } from '../lib/search-grid.js';
+import {
+  canViewMissionTracks,
+  getMissionAccess,
+  MAX_MISSION_CHECKPOINTS,
+  readCheckpoints,
+  toCheckpoints,
+} from '../services/mission-service.js';
+
+export const router = Router();
+
+const MAX_EXPORT_POINTS = 50000;
+const MAX_IMPORT_COORDINATES = 20000;
+const MAX_IMPORT_BYTES = 2 * 1024 * 1024;
+
+// O conteúdo pode chegar como texto ou como GeoJSON já interpretado
+function importSize(content: unknown) {
+  return Buffer.byteLength(typeof content === 'string' ? content : JSON.stringify(content) ?? '');
+}
+
+const SECTOR_STATUS_LABELS: Record<string, string> = {
+  NAO_PESQUISADO: 'Não pesquisado',
+  PARCIAL: 'Parcialmente pesquisado',
+  PESQUISADO: 'Pesquisado',
+};
+
+/**
+ * Exportar a missão para GIS/GPS offline: área de busca, setores, checkpoints importados,
+ * check-ins com notas (como waypoints) e o trajeto de cada voluntário.
+ */
+router.get(
+  '/missions/:missionId/export',
+  requireAuth(),
+  [param('missionId').isString(), query('format').optional().isIn(Object.keys(GEO_EXPORT_FORMATS))],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missionId } = req.params;
+      const format: GeoExportFormat = req.query.format ?? 'geojson';
+
+      const access = await getMissionAccess(missionId, { userId: req.userId, role: req.userRole });
+      if (!access) {
+        return res.status(404).json({ message: 'Missão não encontrada' });
+      }
+      if (!canViewMissionTracks(access)) {
+        return res.status(403).json({ message: 'Acesso negado aos dados desta missão' });
+      }
+
+      const [sectors, newestPoints] = await Promise.all([
+        prisma.missionSector.findMany({
+          where: { missionId },
+          select: { code: true, status: true, teamName: true, polygon: true },
+          orderBy: [{ row: 'asc' }, { col: 'asc' }],
+        }),
+        prisma.missionCheckIn.findMany({
+          where: { missionId },
+          select: {
+            latitude: true,
+            longitude: true,
+            notes: true,
+            recordedAt: true,
+            volunteerId: true,
+            volunteer: { select: { fullName: true } },
+          },
+          orderBy: { recordedAt: 'desc' },
+          take: MAX_EXPORT_POINTS,
+        }),
+      ]);
+      // Acima do limite exportam-se os pontos mais recentes, por ordem cronológica
+      const points = newestPoints.reverse();
+
+      const { mission } = access;
+      const doc: GeoDocument = { name: mission.title, waypoints: [], tracks: [], areas: [] };
+
+      if (mission.searchArea) {
+        const area = mission.searchArea as unknown as SearchAreaPolygon;
+        doc.areas.push({ name: 'Área de busca', ring: area.coordinates[0] });
+      }
+      sectors.forEach((sector) => {
+        const polygon = sector.polygon as unknown as SearchAreaPolygon;
+        const team = sector.teamName ? ` · ${sector.teamName}` : '';
+        doc.areas.push({
+          name: `Setor ${sector.code}`,
+          description: `${SECTOR_STATUS_LABELS[sector.status]}${team}`,
+          ring: polygon.coordinates[0],
+        });
+      });
+
+      readCheckpoints(mission.checkpoints).forEach((checkpoint) => {
+        const name = checkpoint.name ?? 'Checkpoint';
+        if (checkpoint.kind === 'PONTO') {
+          const [longitude, latitude] = checkpoint.coordinates[0];
+          doc.waypoints.push({ name, latitude, longitude, description: 'Checkpoint planeado' });
+        } else if (checkpoint.kind === 'AREA') {
+          doc.areas.push({ name, description: 'Checkpoint planeado', ring: checkpoint.coordinates });
+        } else {
+          doc.tracks.push({
+            name,
+            description: 'Rota planeada',
+            points: checkpoint.coordinates.map(([longitude, latitude]) => ({ latitude, longitude })),
+          });
+        }
+      });
+
+      const tracks = new Map<string, typeof points>();
+      points.forEach((point) => {
+        if (point.notes) {
+          doc.waypoints.push({
+            name: `Check-in · ${point.volunteer.fullName}`,
+            description: point.notes,
+            latitude: point.latitude,
+            longitude: point.longitude,
+            time: point.recordedAt,
+          });
+        }
+        const track = tracks.get(point.volunteerId) ?? [];
+        track.push(point);
+        tracks.set(point.volunteerId, track);
+      });
+      tracks.forEach((track) => {
+        doc.tracks.push({
+          name: `Trajeto · ${track[0].volunteer.fullName}`,
+          points: track.map((point) => ({ latitude: point.latitude, longitude: point.longitude, time: point.recordedAt })),
+        });
+      });
+
+      const file = renderGeoFile(doc, format, `missao-${missionId}`);
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      if (points.length === MAX_EXPORT_POINTS) {
+        res.setHeader('X-Export-Truncated', 'true');
+      }
+      res.send(file.body);
+    } catch (error: any) {
+      console.error('[MISSION_GEODATA] Erro ao exportar missão:', error);
+      res.status(500).json({
+        message: 'Erro ao exportar missão',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Importar rotas e áreas planeadas (GPX ou GeoJSON) como checkpoints da missão
+router.post(
+  '/missions/:missionId/import',
+  requireAuth(),
+  [
+    param('missionId').isString(),
+    body('format').isIn(['gpx', 'geojson']),
+    body('content')
+      .exists()
+      .custom((content) => importSize(content) <= MAX_IMPORT_BYTES)
+      .withMessage(`O ficheiro excede ${MAX_IMPORT_BYTES / (1024 * 1024)} MB`),
+    body('mode').optional().isIn(['append', 'replace']),
+  ],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missionId } = req.params;
+      const { format, content, mode = 'append' } = req.body;
+
+      const access = await getMissionAccess(missionId, { userId: req.userId, role: req.userRole });
+      if (!access) {
+        return res.status(404).json({ message: 'Missão não encontrada' });
+      }
+      if (!access.canManage) {
+        return res.status(403).json({ message: 'Sem permissão para alterar esta missão' });
+      }
+      if (access.mission.status === 'CONCLUIDA') {
+        return res.status(400).json({ message: 'Missão já concluída' });
+      }
+      if (format === 'gpx' && typeof content !== 'string') {
+        return res.status(400).json({ message: 'O conteúdo GPX deve ser texto' });
+      }
+
+      let features: ImportedFeature[];
+      try {
+        features = format === 'gpx' ? parseGpx(content) : parseGeoJSON(content);
+      } catch (parseError: any) {
+        return res.status(400).json({ message: parseError.message || 'Ficheiro inválido' });
+      }
+
+      const valid = features.filter(isValidImportedFeature);
+      if (valid.length === 0) {
+        return res.status(400).json({ message: 'O ficheiro não contém pontos, rotas ou áreas válidas' });
+      }
+      if (valid.reduce((total, feature) => total + feature.coordinates.length, 0) > MAX_IMPORT_COORDINATES) {
+        return res.status(400).json({ message: `O ficheiro excede ${MAX_IMPORT_COORDINATES} coordenadas` });
+      }
+
+      const existing = mode === 'replace' ? [] : readCheckpoints(access.mission.checkpoints);
+      const imported = toCheckpoints(valid, format === 'gpx' ? 'GPX' : 'GEOJSON', req.userId);
+      const checkpoints = [...existing, ...imported];
+      if (checkpoints.length > MAX_MISSION_CHECKPOINTS) {
+        return res.status(400).json({ message: `A missão não pode ter mais de ${MAX_MISSION_CHECKPOINTS} checkpoints` });
+      }
+
+      await prisma.volunteerMission.update({ where: { id: missionId }, data: { checkpoints } });
+
+      res.status(201).json({
+        imported: imported.length,
+        skipped: features.length - valid.length,
+        checkpoints,
+      });
+    } catch (error: any) {
+      console.error('[MISSION_GEODATA] Erro ao importar:', error);
+      res.status(500).json({
+        message: 'Erro ao importar ficheiro',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
@@ -0,0 +1,323 @@
+import { Router } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { prisma } from '../lib/prisma.js';
+import { requireAuth } from '../middleware/auth.js';
+import { resolveLastKnownPosition } from '../lib/geo.js';
+import {
+  circleSearchArea,
+  generateSearchGrid,
+  MAX_SECTOR_SIZE_METERS,
+  MAX_SECTORS_PER_MISSION,
+  MIN_SECTOR_SIZE_METERS,
+  toSearchAreaPolygon,
+} from '../lib/search-grid.js';
+import { getMissionAccess, sectorCoverage } from '../services/mission-service.js';
+
+export const router = Router();
+
+const DEFAULT_SECTOR_SIZE_METERS = 250;
+
+const sectorInclude = {
+  assignments: {
+    select: { userId: true, user: { select: { id: true, fullName: true } } },
+  },
+} as const;
+
+// Último ponto conhecido entre os casos ligados à missão (centro por omissão da área de busca)
+async function missionLastKnownPosition(missionId: string) {
+  const links = await prisma.missionCase.findMany({
+    where: { missionId },
+    orderBy: { createdAt: 'asc' },
+    select: {
+      missingPerson: {
+        select: {
+          lastSignalLat: true,
+          lastSignalLng: true,
+          sightings: { select: { latitude: true, longitude: true, status: true, createdAt: true } },
+        },
+      },
+    },
+  });
+
+  for (const link of links) {
+    const position = resolveLastKnownPosition(link.missingPerson);
+    if (position) {
+      return position;
+    }
+  }
+  return null;
+}
+
+/**
+ * Definir a área de busca e gerar a grelha de setores.
+ * Aceita os vértices do polígono (points) ou um raio à volta de um centro; sem centro usa
+ * o último ponto conhecido dos casos ligados. Regenerar apaga o progresso dos setores, por isso
+ * exige force quando já há setores pesquisados ou atribuídos.
+ */
+router.put(
+  '/missions/:missionId/search-area',
+  requireAuth(),
+  [
+    param('missionId').isString(),
+    body('points').optional().isArray({ min: 3, max: 200 }),
+    body('points.*.latitude').optional().isFloat({ min: -90, max: 90 }).toFloat(),
+    body('points.*.longitude').optional().isFloat({ min: -180, max: 180 }).toFloat(),
+    body('radiusMeters').optional().isInt({ min: 100, max: 20000 }).toInt(),
+    body('latitude').optional().isFloat({ min: -90, max: 90 }).toFloat(),
+    body('longitude').optional().isFloat({ min: -180, max: 180 }).toFloat(),
+    body('sectorSizeMeters').optional().isInt({ min: MIN_SECTOR_SIZE_METERS, max: MAX_SECTOR_SIZE_METERS }).toInt(),
+    body('force').optional().isBoolean().toBoolean(),
+  ],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missionId } = req.params;
+      const { points, radiusMeters, latitude, longitude, force } = req.body;
+      const sectorSizeMeters = req.body.sectorSizeMeters ?? DEFAULT_SECTOR_SIZE_METERS;
+
+      const access = await getMissionAccess(missionId, { userId: req.userId, role: req.userRole });
+      if (!access) {
+        return res.status(404).json({ message: 'Missão não encontrada' });
+      }
+      if (!access.canManage) {
+        return res.status(403).json({ message: 'Sem permissão para alterar esta missão' });
+      }
+      if (access.mission.status === 'CONCLUIDA') {
+        return res.status(400).json({ message: 'Missão já concluída' });
+      }
+
+      let searchArea;
+      if (points) {
+        searchArea = toSearchAreaPolygon(points);
+        if (!searchArea) {
+          return res.status(400).json({ message: 'Polígono inválido' });
+        }
+      } else if (radiusMeters) {
+        const center =
+          latitude !== undefined && longitude !== undefined
+            ? { latitude, longitude }
+            : await missionLastKnownPosition(missionId);
+        if (!center) {
+          return res.status(400).json({ message: 'Indique o centro da área: os casos ligados não têm posição conhecida' });
+        }
+        searchArea = circleSearchArea(center, radiusMeters);
+      } else {
+        return res.status(400).json({ message: 'Indique os pontos do polígono ou o raio da área de busca' });
+      }
+
+      const sectors = generateSearchGrid(searchArea, sectorSizeMeters);
+      if (!sectors) {
+        return res.status(400).json({
+          message: `A grelha excede ${MAX_SECTORS_PER_MISSION} setores: aumente o tamanho dos setores`,
+        });
+      }
+      if (sectors.length === 0) {
+        return res.status(400).json({ message: 'Área demasiado pequena para o tamanho de setor indicado' });
+      }
+
+      if (!force) {
+        const inProgress = await prisma.missionSector.count({
+          where: {
+            missionId,
+            OR: [{ status: { not: 'NAO_PESQUISADO' } }, { assignments: { some: {} } }, { teamName: { not: null } }],
+          },
+        });
+        if (inProgress > 0) {
+          return res.status(409).json({
+            message: 'Já existem setores pesquisados ou atribuídos; envie force para regenerar a grelha',
+          });
+        }
+      }
+
+      await prisma.$transaction([
+        prisma.missionSector.deleteMany({ where: { missionId } }),
+        prisma.volunteerMission.update({ where: { id: missionId }, data: { searchArea, sectorSizeMeters } }),
+        prisma.missionSector.createMany({
+          data: sectors.map((sector) => ({ ...sector, missionId })),
+        }),
+      ]);
+
+      const created = await prisma.missionSector.findMany({
+        where: { missionId },
+        orderBy: [{ row: 'asc' }, { col: 'asc' }],
+      });
+
+      res.json({ searchArea, sectorSizeMeters, sectors: created, coverage: sectorCoverage(created) });
+    } catch (error: any) {
+      console.error('[MISSION_SECTORS] Erro ao gerar grelha:', error);
+      res.status(500).json({
+        message: 'Erro ao gerar grelha de busca',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Área de busca, setores (com atribuições) e cobertura
+router.get('/missions/:missionId/sectors', requireAuth(), [param('missionId').isString()], async (req: any, res: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  try {
+    const { missionId } = req.params;
+    const mission = await prisma.volunteerMission.findUnique({
+      where: { id: missionId },
+      select: { id: true, searchArea: true, sectorSizeMeters: true },
+    });
+    if (!mission) {
+      return res.status(404).json({ message: 'Missão não encontrada' });
+    }
+
+    const sectors = await prisma.missionSector.findMany({
+      where: { missionId },
+      include: sectorInclude,
+      orderBy: [{ row: 'asc' }, { col: 'asc' }],
+    });
+
+    res.json({
+      searchArea: mission.searchArea,
+      sectorSizeMeters: mission.sectorSizeMeters,
+      sectors,
+      mySectorIds: sectors
+        .filter((sector) => sector.assignments.some((assignment) => assignment.userId === req.userId))
+        .map((sector) => sector.id),
+      coverage: sectorCoverage(sectors),
+    });
+  } catch (error: any) {
+    console.error('[MISSION_SECTORS] Erro ao listar setores:', error);
+    res.status(500).json({
+      message: 'Erro ao listar setores',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+});
+
+// Atribuir voluntários inscritos e/ou uma equipa a um setor (substitui a atribuição atual)
+router.put(
+  '/missions/:missionId/sectors/:sectorId/assignments',
+  requireAuth(),
+  [
+    param('missionId').isString(),
+    param('sectorId').isString(),
+    body('userIds').optional().isArray({ max: 50 }),
+    body('userIds.*').optional().isString(),
+    body('teamName').optional({ nullable: true }).isString().isLength({ max: 100 }),
+  ],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missionId, sectorId } = req.params;
+      const userIds: string[] = Array.from(new Set(req.body.userIds ?? []));
+
+      const access = await getMissionAccess(missionId, { userId: req.userId, role: req.userRole });
+      if (!access) {
+        return res.status(404).json({ message: 'Missão não encontrada' });
+      }
+      if (!access.canManage) {
+        return res.status(403).json({ message: 'Sem permissão para atribuir setores' });
+      }
+
+      const sector = await prisma.missionSector.findFirst({ where: { id: sectorId, missionId }, select: { id: true } });
+      if (!sector) {
+        return res.status(404).json({ message: 'Setor não encontrado' });
+      }
+
+      // Só voluntários inscritos na missão podem ser destacados para um setor
+      const enrolled = await prisma.missionParticipant.count({ where: { missionId, userId: { in: userIds } } });
+      if (enrolled !== userIds.length) {
+        return res.status(400).json({ message: 'Todos os voluntários têm de estar inscritos na missão' });
+      }
+
+      await prisma.$transaction([
+        prisma.missionSectorAssignment.deleteMany({ where: { sectorId } }),
+        prisma.missionSectorAssignment.createMany({
+          data: userIds.map((userId) => ({ sectorId, userId, assignedById: req.userId })),
+        }),
+        ...(req.body.teamName !== undefined
+          ? [prisma.missionSector.update({ where: { id: sectorId }, data: { teamName: req.body.teamName || null } })]
+          : []),
+      ]);
+
+      const updated = await prisma.missionSector.findUnique({ where: { id: sectorId }, include: sectorInclude });
+
+      res.json({ sector: updated });
+    } catch (error: any) {
+      console.error('[MISSION_SECTORS] Erro ao atribuir setor:', error);
+      res.status(500).json({
+        message: 'Erro ao atribuir setor',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Marcar o estado de pesquisa de um setor (quem gere a missão ou os voluntários atribuídos)
+router.patch(
+  '/missions/:missionId/sectors/:sectorId/status',
+  requireAuth(),
+  [
+    param('missionId').isString(),
+    param('sectorId').isString(),
+    body('status').isIn(['NAO_PESQUISADO', 'PARCIAL', 'PESQUISADO']),
+    body('notes').optional({ nullable: true }).isString().isLength({ max: 1000 }),
+  ],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missionId, sectorId } = req.params;
+      const { status, notes } = req.body;
+
+      const access = await getMissionAccess(missionId, { userId: req.userId, role: req.userRole });
+      if (!access) {
+        return res.status(404).json({ message: 'Missão não encontrada' });
+      }
+
+      const sector = await prisma.missionSector.findFirst({ where: { id: sectorId, missionId }, include: sectorInclude });
+      if (!sector) {
+        return res.status(404).json({ message: 'Setor não encontrado' });
+      }
+
+      const isAssigned =
+        Boolean(access.participation) && sector.assignments.some((assignment) => assignment.userId === req.userId);
+      if (!access.canManage && !isAssigned) {
+        return res.status(403).json({ message: 'Apenas voluntários atribuídos ao setor podem atualizá-lo' });
+      }
+      if (access.mission.status !== 'ATIVA' && !access.canManage) {
+        return res.status(400).json({ message: 'A missão não está ativa' });
+      }
+
+      const updated = await prisma.missionSector.update({
+        where: { id: sectorId },
+        data: {
+          status,
+          searchedAt: status === 'NAO_PESQUISADO' ? null : new Date(),
+          updatedById: req.userId,
+          ...(notes !== undefined ? { notes: notes || null } : {}),
+        },
+        include: sectorInclude,
+      });
+
+      res.json({ sector: updated });
+    } catch (error: any) {
+      console.error('[MISSION_SECTORS] Erro ao atualizar setor:', error);
+      res.status(500).json({
+        message: 'Erro ao atualizar setor',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
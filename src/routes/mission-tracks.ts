@@ -0,0 +1,229 @@
+import { Router } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { prisma } from '../lib/prisma.js';
+import { requireAuth } from '../middleware/auth.js';
+import { computeTrackCoverage, type SearchAreaPolygon } from '../lib/search-grid.js';
+import {
+  canViewMissionTracks,
+  checkInError,
+  getMissionAccess,
+  recordTrackPoints,
+  sectorCoverage,
+} from '../services/mission-service.js';
+
+export const router = Router();
+
+const MAX_POINTS_PER_BATCH = 500;
+const MAX_TRACK_POINTS = 50000;
+// Leituras com precisão pior do que isto não contam para a cobertura
+const MAX_COVERAGE_ACCURACY_METERS = 50;
+// Percentagem da área do setor percorrida para o considerar pesquisado
+const SEARCHED_SECTOR_PERCENT = 80;
+
+type TrackPoint = { volunteerId: string; latitude: number; longitude: number; recordedAt: Date };
+
+function groupByVolunteer(points: TrackPoint[]) {
+  const tracks = new Map<string, TrackPoint[]>();
+  points.forEach((point) => {
+    const track = tracks.get(point.volunteerId) ?? [];
+    track.push(point);
+    tracks.set(point.volunteerId, track);
+  });
+  return tracks;
+}
+
+// Enviar um lote de pontos GPS (breadcrumbs) do próprio voluntário
+router.post(
+  '/missions/:missionId/track',
+  requireAuth(['VOLUNTARIO', 'MODERADOR', 'ADMIN']),
+  [
+    param('missionId').isString(),
+    body('points').isArray({ min: 1, max: MAX_POINTS_PER_BATCH }),
+    body('points.*.latitude').isFloat({ min: -90, max: 90 }).toFloat(),
+    body('points.*.longitude').isFloat({ min: -180, max: 180 }).toFloat(),
+    body('points.*.accuracy').optional({ nullable: true }).isFloat({ min: 0 }).toFloat(),
+    body('points.*.recordedAt').optional().isISO8601(),
+  ],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missionId } = req.params;
+      const rejection = await checkInError(missionId, req.userId);
+      if (rejection) {
+        return res.status(rejection.status).json({ message: rejection.error });
+      }
+
+      // Pontos gravados offline chegam atrasados; leituras no futuro indicam relógio errado
+      const tolerance = Date.now() + 5 * 60 * 1000;
+      const points = req.body.points.map((point: any) => ({
+        latitude: point.latitude,
+        longitude: point.longitude,
+        accuracy: point.accuracy ?? null,
+        recordedAt: point.recordedAt ? new Date(point.recordedAt) : undefined,
+      }));
+      if (points.some((point: any) => point.recordedAt && point.recordedAt.getTime() > tolerance)) {
+        return res.status(400).json({ message: 'Pontos com data no futuro' });
+      }
+
+      const count = await recordTrackPoints(missionId, req.userId, points);
+
+      res.status(201).json({ count });
+    } catch (error: any) {
+      console.error('[MISSION_TRACKS] Erro ao gravar trajeto:', error);
+      res.status(500).json({
+        message: 'Erro ao gravar trajeto',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Trajetos da missão em GeoJSON: uma LineString por voluntário (Point quando só há uma leitura)
+router.get(
+  '/missions/:missionId/tracks',
+  requireAuth(),
+  [
+    param('missionId').isString(),
+    query('since').optional().isISO8601(),
+    query('volunteerId').optional().isString(),
+  ],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missionId } = req.params;
+      const access = await getMissionAccess(missionId, { userId: req.userId, role: req.userRole });
+      if (!access) {
+        return res.status(404).json({ message: 'Missão não encontrada' });
+      }
+      if (!canViewMissionTracks(access)) {
+        return res.status(403).json({ message: 'Acesso negado aos trajetos desta missão' });
+      }
+
+      // Acima do limite ficam os pontos mais recentes, devolvidos por ordem cronológica
+      const points = (
+        await prisma.missionCheckIn.findMany({
+          where: {
+            missionId,
+            ...(req.query.volunteerId ? { volunteerId: req.query.volunteerId } : {}),
+            ...(req.query.since ? { recordedAt: { gte: new Date(req.query.since) } } : {}),
+          },
+          select: { volunteerId: true, latitude: true, longitude: true, recordedAt: true },
+          orderBy: { recordedAt: 'desc' },
+          take: MAX_TRACK_POINTS,
+        })
+      ).reverse();
+
+      const tracks = groupByVolunteer(points);
+      const volunteers = await prisma.user.findMany({
+        where: { id: { in: Array.from(tracks.keys()) } },
+        select: { id: true, fullName: true },
+      });
+      const names = new Map(volunteers.map((volunteer) => [volunteer.id, volunteer.fullName]));
+
+      res.json({
+        type: 'FeatureCollection',
+        features: Array.from(tracks.entries()).map(([volunteerId, track]) => {
+          const coordinates = track.map((point) => [point.longitude, point.latitude]);
+          return {
+            type: 'Feature',
+            geometry:
+              coordinates.length > 1
+                ? { type: 'LineString', coordinates }
+                : { type: 'Point', coordinates: coordinates[0] },
+            properties: {
+              volunteerId,
+              volunteerName: names.get(volunteerId) ?? null,
+              pointCount: track.length,
+              startedAt: track[0].recordedAt,
+              lastSeenAt: track[track.length - 1].recordedAt,
+              timestamps: track.map((point) => point.recordedAt),
+            },
+          };
+        }),
+        truncated: points.length === MAX_TRACK_POINTS,
+      });
+    } catch (error: any) {
+      console.error('[MISSION_TRACKS] Erro ao listar trajetos:', error);
+      res.status(500).json({
+        message: 'Erro ao listar trajetos',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Cobertura calculada pelos trajetos contra a área de busca, ao lado do estado marcado em cada setor
+router.get('/missions/:missionId/coverage', requireAuth(), [param('missionId').isString()], async (req: any, res: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  try {
+    const { missionId } = req.params;
+    const access = await getMissionAccess(missionId, { userId: req.userId, role: req.userRole });
+    if (!access) {
+      return res.status(404).json({ message: 'Missão não encontrada' });
+    }
+    if (!canViewMissionTracks(access)) {
+      return res.status(403).json({ message: 'Acesso negado aos trajetos desta missão' });
+    }
+
+    const { searchArea, sectorSizeMeters } = access.mission;
+    if (!searchArea || !sectorSizeMeters) {
+      return res.status(400).json({ message: 'A missão ainda não tem área de busca definida' });
+    }
+
+    const [newestPoints, sectors] = await Promise.all([
+      prisma.missionCheckIn.findMany({
+        where: {
+          missionId,
+          OR: [{ accuracy: null }, { accuracy: { lte: MAX_COVERAGE_ACCURACY_METERS } }],
+        },
+        select: { volunteerId: true, latitude: true, longitude: true, recordedAt: true },
+        orderBy: { recordedAt: 'desc' },
+        take: MAX_TRACK_POINTS,
+      }),
+      prisma.missionSector.findMany({
+        where: { missionId },
+        select: { id: true, code: true, status: true, teamName: true },
+        orderBy: [{ row: 'asc' }, { col: 'asc' }],
+      }),
+    ]);
+
+    const points = newestPoints.reverse();
+    const tracks = Array.from(groupByVolunteer(points).values());
+    const coverage = computeTrackCoverage(searchArea as unknown as SearchAreaPolygon, sectorSizeMeters, tracks);
+
+    res.json({
+      areaPercent: coverage.areaPercent,
+      volunteers: tracks.length,
+      sectors: sectors.map((sector) => {
+        const trackPercent = coverage.sectors[sector.code] ?? 0;
+        return {
+          ...sector,
+          trackPercent,
+          suggestedStatus:
+            trackPercent >= SEARCHED_SECTOR_PERCENT ? 'PESQUISADO' : trackPercent > 0 ? 'PARCIAL' : 'NAO_PESQUISADO',
+        };
+      }),
+      reported: sectorCoverage(sectors),
+      // Com o limite atingido, a cobertura só considera os pontos mais recentes
+      truncated: points.length === MAX_TRACK_POINTS,
+    });
+  } catch (error: any) {
+    console.error('[MISSION_TRACKS] Erro ao calcular cobertura:', error);
+    res.status(500).json({
+      message: 'Erro ao calcular cobertura',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+});
@@ -3,6 +3,7 @@ import { body, param, query, validationResult } from 'express-validator';
 import { prisma } from '../lib/prisma.js';
 import { requireAuth } from '../middleware/auth.js';
 import { auditLog } from '../middleware/audit.js';
+import { DEFAULT_NOTIFICATION_EVENTS } from '../services/notification-dispatch-service.js';
 
 export const router = Router();
 
@@ -18,16 +19,12 @@ router.get(
 
       // Se não houver configurações, criar padrões
       if (configs.length === 0) {
-        const defaultConfigs = [
-          { eventType: 'new_case', enabled: true, template: 'Novo caso reportado: {caseName}', targetRoles: ['MODERADOR', 'ADMIN'] },
-          { eventType: 'case_approved', enabled: true, template: 'Seu caso "{caseName}" foi aprovado', targetRoles: null },
-          { eventType: 'case_rejected', enabled: true, template: 'Seu caso "{caseName}" foi rejeitado. Motivo: {reason}', targetRoles: null },
-          { eventType: 'new_sighting', enabled: true, template: 'Novo avistamento reportado para o caso "{caseName}"', targetRoles: null },
-          { eventType: 'case_status_changed', enabled: true, template: 'Status do caso "{caseName}" alterado para: {status}', targetRoles: null },
-          { eventType: 'new_chat_message', enabled: true, template: 'Nova mensagem no chat do caso "{caseName}"', targetRoles: null },
-          { eventType: 'new_authority_chat', enabled: true, template: 'Nova conversa iniciada com autoridade', targetRoles: ['ADMIN', 'AUTORIDADE'] },
-          { eventType: 'global_announcement', enabled: true, template: null, targetRoles: null },
-        ];
+        const defaultConfigs = Object.entries(DEFAULT_NOTIFICATION_EVENTS).map(([eventType, defaults]) => ({
+          eventType,
+          enabled: true,
+          template: defaults.template,
+          targetRoles: defaults.targetRoles,
+        }));
 
         for (const config of defaultConfigs) {
           await prisma.notificationConfig.create({
@@ -35,7 +32,7 @@ router.get(
               eventType: config.eventType,
               enabled: config.enabled,
               template: config.template,
-              targetRoles: config.targetRoles,
+              targetRoles: config.targetRoles ?? undefined,
             },
           });
         }
@@ -64,6 +61,7 @@ router.put(
   [
     param('eventType').isString(),
     body('enabled').optional().isBoolean(),
+    body('mandatory').optional().isBoolean(),
     body('template').optional().isString(),
     body('targetRoles').optional().isArray(),
   ],
@@ -76,12 +74,13 @@ router.put(
 
     try {
       const { eventType } = req.params;
-      const { enabled, template, targetRoles } = req.body;
+      const { enabled, mandatory, template, targetRoles } = req.body;
 
       const config = await prisma.notificationConfig.upsert({
         where: { eventType },
         update: {
           ...(enabled !== undefined ? { enabled } : {}),
+          ...(mandatory !== undefined ? { mandatory } : {}),
           ...(template !== undefined ? { template } : {}),
           ...(targetRoles !== undefined ? { targetRoles } : {}),
           updatedBy: req.userId,
@@ -89,6 +88,7 @@ router.put(
         create: {
           eventType,
           enabled: enabled !== undefined ? enabled : true,
+          mandatory: mandatory !== undefined ? mandatory : false,
           template: template || null,
           targetRoles: targetRoles || null,
           updatedBy: req.userId,
@@ -0,0 +1,160 @@
+import { Router } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { prisma } from '../lib/prisma.js';
+import { requireAuth } from '../middleware/auth.js';
+import { DEFAULT_NOTIFICATION_EVENTS } from '../services/notification-dispatch-service.js';
+import { DEFAULT_CHANNELS } from '../services/notification-preference-service.js';
+
+export const router = Router();
+
+const eventTypes = Object.keys(DEFAULT_NOTIFICATION_EVENTS);
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Listar preferências do usuário para todos os eventos (com os padrões quando não definidas)
+router.get('/', requireAuth(), async (req: any, res: any) => {
+  try {
+    const [preferences, configs] = await Promise.all([
+      prisma.notificationPreference.findMany({ where: { userId: req.userId } }),
+      prisma.notificationConfig.findMany({
+        where: { eventType: { in: eventTypes } },
+        select: { eventType: true, enabled: true, mandatory: true },
+      }),
+    ]);
+
+    const preferenceMap = new Map(preferences.map((preference) => [preference.eventType, preference]));
+    const configMap = new Map(configs.map((config) => [config.eventType, config]));
+
+    res.json({
+      preferences: eventTypes.map((eventType) => {
+        const preference = preferenceMap.get(eventType);
+        const config = configMap.get(eventType);
+        return {
+          eventType,
+          enabled: config?.enabled ?? true,
+          mandatory: config?.mandatory ?? false,
+          customized: Boolean(preference),
+          inApp: preference?.inApp ?? DEFAULT_CHANNELS.inApp,
+          push: preference?.push ?? DEFAULT_CHANNELS.push,
+          email: preference?.email ?? DEFAULT_CHANNELS.email,
+          sms: preference?.sms ?? DEFAULT_CHANNELS.sms,
+          quietHoursStart: preference?.quietHoursStart ?? null,
+          quietHoursEnd: preference?.quietHoursEnd ?? null,
+        };
+      }),
+    });
+  } catch (error: any) {
+    console.error('[NOTIFICATION_PREFERENCES] Erro ao listar:', error);
+    res.status(500).json({
+      message: 'Erro ao listar preferências de notificação',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+});
+
+// Registar/remover o token de push do dispositivo
+router.put(
+  '/push-token',
+  requireAuth(),
+  [body('pushToken').optional({ nullable: true }).isString()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      await prisma.user.update({
+        where: { id: req.userId },
+        data: { pushToken: req.body.pushToken || null },
+      });
+
+      res.json({ message: 'Token de push atualizado' });
+    } catch (error: any) {
+      console.error('[NOTIFICATION_PREFERENCES] Erro ao atualizar token:', error);
+      res.status(500).json({
+        message: 'Erro ao atualizar token de push',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Definir preferências de um evento
+router.put(
+  '/:eventType',
+  requireAuth(),
+  [
+    param('eventType').isIn(eventTypes),
+    body('inApp').optional().isBoolean(),
+    body('push').optional().isBoolean(),
+    body('email').optional().isBoolean(),
+    body('sms').optional().isBoolean(),
+    body('quietHoursStart').optional({ nullable: true }).matches(timePattern),
+    body('quietHoursEnd').optional({ nullable: true }).matches(timePattern),
+  ],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { inApp, push, email, sms, quietHoursStart, quietHoursEnd } = req.body;
+
+    // Horas de silêncio são definidas (ou removidas com null) sempre em par
+    if ((quietHoursStart !== undefined || quietHoursEnd !== undefined) && !quietHoursStart !== !quietHoursEnd) {
+      return res.status(400).json({ message: 'Informe o início e o fim das horas de silêncio' });
+    }
+
+    try {
+      const { eventType } = req.params;
+      const data: any = {};
+      if (inApp !== undefined) data.inApp = inApp;
+      if (push !== undefined) data.push = push;
+      if (email !== undefined) data.email = email;
+      if (sms !== undefined) data.sms = sms;
+      if (quietHoursStart !== undefined) data.quietHoursStart = quietHoursStart || null;
+      if (quietHoursEnd !== undefined) data.quietHoursEnd = quietHoursEnd || null;
+
+      const preference = await prisma.notificationPreference.upsert({
+        where: { userId_eventType: { userId: req.userId, eventType } },
+        update: data,
+        create: {
+          userId: req.userId,
+          eventType,
+          ...DEFAULT_CHANNELS,
+          ...data,
+        },
+      });
+
+      res.json({ preference });
+    } catch (error: any) {
+      console.error('[NOTIFICATION_PREFERENCES] Erro ao atualizar:', error);
+      res.status(500).json({
+        message: 'Erro ao atualizar preferências de notificação',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Repor os padrões de um evento
+router.delete('/:eventType', requireAuth(), [param('eventType').isIn(eventTypes)], async (req: any, res: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  try {
+    await prisma.notificationPreference.deleteMany({
+      where: { userId: req.userId, eventType: req.params.eventType },
+    });
+
+    res.json({ message: 'Preferências repostas para os valores padrão' });
+  } catch (error: any) {
+    console.error('[NOTIFICATION_PREFERENCES] Erro ao repor:', error);
+    res.status(500).json({
+      message: 'Erro ao repor preferências de notificação',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+});
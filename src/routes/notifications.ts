@@ -0,0 +1,125 @@
+import { Router } from 'express';
+import { param, query, validationResult } from 'express-validator';
+import { prisma } from '../lib/prisma.js';
+import { requireAuth } from '../middleware/auth.js';
+
+export const router = Router();
+
+// Listar notificações do usuário
+router.get(
+  '/',
+  requireAuth(),
+  [
+    query('unread').optional().isBoolean(),
+    query('type').optional().isString(),
+    query('page').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 100 }),
+  ],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { unread, type, page, limit } = req.query;
+      const pageNumber = page ? parseInt(String(page), 10) : 1;
+      const pageSize = limit ? parseInt(String(limit), 10) : 20;
+
+      const whereClause: any = {
+        userId: req.userId,
+        ...(unread === 'true' ? { readAt: null } : {}),
+        ...(type ? { type: String(type) } : {}),
+      };
+
+      const [total, unreadCount, notifications] = await Promise.all([
+        prisma.notification.count({ where: whereClause }),
+        prisma.notification.count({ where: { userId: req.userId, readAt: null } }),
+        prisma.notification.findMany({
+          where: whereClause,
+          orderBy: { createdAt: 'desc' },
+          skip: (pageNumber - 1) * pageSize,
+          take: pageSize,
+        }),
+      ]);
+
+      const totalPages = Math.ceil(total / pageSize);
+
+      res.json({
+        notifications,
+        unreadCount,
+        pagination: {
+          page: pageNumber,
+          limit: pageSize,
+          total,
+          totalPages,
+          hasNextPage: pageNumber < totalPages,
+          hasPrevPage: pageNumber > 1,
+        },
+      });
+    } catch (error: any) {
+      console.error('[NOTIFICATIONS] Erro ao listar:', error);
+      res.status(500).json({
+        message: 'Erro ao listar notificações',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Contagem de não lidas
+router.get('/unread-count', requireAuth(), async (req: any, res: any) => {
+  try {
+    const count = await prisma.notification.count({
+      where: { userId: req.userId, readAt: null },
+    });
+
+    res.json({ count });
+  } catch (error: any) {
+    console.error('[NOTIFICATIONS] Erro ao contar não lidas:', error);
+    res.status(500).json({
+      message: 'Erro ao contar notificações',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+});
+
+// Marcar todas como lidas
+router.patch('/read-all', requireAuth(), async (req: any, res: any) => {
+  try {
+    const { count } = await prisma.notification.updateMany({
+      where: { userId: req.userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    res.json({ updated: count });
+  } catch (error: any) {
+    console.error('[NOTIFICATIONS] Erro ao marcar todas como lidas:', error);
+    res.status(500).json({
+      message: 'Erro ao marcar notificações como lidas',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+});
+
+// Marcar uma notificação como lida
+router.patch('/:id/read', requireAuth(), [param('id').isString()], async (req: any, res: any) => {
+  try {
+    const { count } = await prisma.notification.updateMany({
+      where: { id: req.params.id, userId: req.userId },
+      data: { readAt: new Date() },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ message: 'Notificação não encontrada' });
+    }
+
+    res.json({ id: req.params.id, read: true });
+  } catch (error: any) {
+    console.error('[NOTIFICATIONS] Erro ao marcar como lida:', error);
+    res.status(500).json({
+      message: 'Erro ao marcar notificação como lida',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+});
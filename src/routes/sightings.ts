@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { body, param, validationResult } from 'express-validator';
 import { prisma } from '../lib/prisma.js';
 import { requireAuth } from '../middleware/auth.js';
+import { dispatchNotification } from '../services/notification-dispatch-service.js';
 
 export const router = Router({ mergeParams: true });
 
@@ -59,19 +60,12 @@ router.post(
     });
 
     // Notificar o reporter do caso sobre novo avistamento
-    try {
-      const { emitNotification } = await import('../lib/socket.js');
-      if (sighting.missingPerson.reporterId) {
-        emitNotification(sighting.missingPerson.reporterId, {
-          type: 'new_sighting',
-          title: 'Novo avistamento reportado',
-          message: `Alguém reportou um avistamento sobre o caso "${sighting.missingPerson.fullName || 'que você publicou'}" com foto de evidência.`,
-          caseId: missingPersonId,
-        });
-      }
-    } catch (error) {
-      console.error('Erro ao enviar notificação:', error);
-    }
+    await dispatchNotification('new_sighting', {
+      variables: { caseName: sighting.missingPerson.fullName },
+      userIds: [sighting.missingPerson.reporterId],
+      excludeUserIds: [req.userId],
+      metadata: { caseId: missingPersonId, sightingId: sighting.id },
+    });
 
     // Verificar e atribuir badges
     try {
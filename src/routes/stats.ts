@@ -31,7 +31,7 @@ router.get('/summary', async (_req, res) => {
 // Estatísticas para autoridades
 router.get('/authorities', requireAuth(['AUTORIDADE', 'ADMIN']), async (_req, res) => {
   try {
-    const [total, byProvince, byStatus] = await Promise.all([
+    const [total, byProvince, byStatus, linkedChats] = await Promise.all([
       prisma.missingPerson.count({ where: { approved: true } }),
       prisma.missingPerson.groupBy({
         by: ['province'],
@@ -43,6 +43,11 @@ router.get('/authorities', requireAuth(['AUTORIDADE', 'ADMIN']), async (_req, re
         where: { approved: true },
         _count: { _all: true },
       }),
+      // Conversas com autoridades vinculadas a casos (contadas pela província do caso)
+      prisma.authorityChat.findMany({
+        where: { missingPersonId: { not: null } },
+        select: { missingPerson: { select: { province: true } } },
+      }),
     ]);
 
     const provinceMap: Record<string, number> = {};
@@ -55,10 +60,20 @@ router.get('/authorities', requireAuth(['AUTORIDADE', 'ADMIN']), async (_req, re
       statusMap[item.status] = item._count._all;
     });
 
+    const chatProvinceMap: Record<string, number> = {};
+    linkedChats.forEach((chat) => {
+      const province = chat.missingPerson?.province;
+      if (province) {
+        chatProvinceMap[province] = (chatProvinceMap[province] ?? 0) + 1;
+      }
+    });
+
     res.json({
       total,
       porProvincia: provinceMap,
       porStatus: statusMap,
+      conversasVinculadas: linkedChats.length,
+      conversasPorProvincia: chatProvinceMap,
     });
   } catch (error) {
     console.error('[stats:authorities] Erro:', error);
@@ -3,6 +3,11 @@ import { body, param, query, validationResult } from 'express-validator';
 import { prisma } from '../lib/prisma.js';
 import { requireAuth } from '../middleware/auth.js';
 import { auditLog } from '../middleware/audit.js';
+import {
+  AUTHORITY_CHAT_SLA_KEY,
+  AUTHORITY_CHAT_SLA_LIMITS,
+  getAuthorityChatSla,
+} from '../services/authority-chat-service.js';
 
 export const router = Router();
 
@@ -41,6 +46,71 @@ router.get(
   }
 );
 
+// Obter SLA das conversas com autoridades (registado antes de /:key, que de outra forma o apanharia)
+router.get('/authority-chat-sla', requireAuth(['ADMIN']), async (req: any, res: any) => {
+  try {
+    res.json({ sla: await getAuthorityChatSla() });
+  } catch (error: any) {
+    console.error('[SYSTEM_CONFIG] Erro ao buscar SLA:', error);
+    res.status(500).json({
+      message: 'Erro ao buscar SLA das conversas',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+});
+
+// Atualizar SLA das conversas com autoridades
+router.put(
+  '/authority-chat-sla',
+  requireAuth(['ADMIN']),
+  [
+    body('firstResponseMinutes').optional().isInt(AUTHORITY_CHAT_SLA_LIMITS.firstResponseMinutes).toInt(),
+    body('resolutionHours').optional().isInt(AUTHORITY_CHAT_SLA_LIMITS.resolutionHours).toInt(),
+    body('maxEscalations').optional().isInt(AUTHORITY_CHAT_SLA_LIMITS.maxEscalations).toInt(),
+  ],
+  auditLog('UPDATE_AUTHORITY_CHAT_SLA', 'CONFIG'),
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const current = await getAuthorityChatSla();
+      const sla = {
+        firstResponseMinutes: req.body.firstResponseMinutes ?? current.firstResponseMinutes,
+        resolutionHours: req.body.resolutionHours ?? current.resolutionHours,
+        maxEscalations: req.body.maxEscalations ?? current.maxEscalations,
+      };
+
+      await prisma.systemConfig.upsert({
+        where: { key: AUTHORITY_CHAT_SLA_KEY },
+        update: {
+          value: sla,
+          category: 'NOTIFICACOES',
+          description: 'SLA de resposta das conversas com autoridades',
+          updatedBy: req.userId,
+        },
+        create: {
+          key: AUTHORITY_CHAT_SLA_KEY,
+          value: sla,
+          category: 'NOTIFICACOES',
+          description: 'SLA de resposta das conversas com autoridades',
+          updatedBy: req.userId,
+        },
+      });
+
+      res.json({ message: 'SLA atualizado com sucesso', sla });
+    } catch (error: any) {
+      console.error('[SYSTEM_CONFIG] Erro ao atualizar SLA:', error);
+      res.status(500).json({
+        message: 'Erro ao atualizar SLA das conversas',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  }
+);
+
 // Obter configuração específica
 router.get(
   '/:key',
@@ -210,11 +280,3 @@ router.put(
     }
   }
 );
-
-
-
-
-
-
-
-
@@ -1,7 +1,19 @@
 import { Router } from 'express';
 import multer from 'multer';
+import fs from 'fs';
 import path from 'path';
+import { randomUUID } from 'node:crypto';
+import { prisma } from '../lib/prisma.js';
+import { isModeratorRole } from '../lib/case-access.js';
 import { requireAuth } from '../middleware/auth.js';
+import {
+  attachmentRule,
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  presentAttachment,
+} from '../services/chat-attachment-service.js';
+import { canViewAuthorityChat } from '../services/authority-chat-service.js';
+import { getThreadAccess } from '../services/chat-service.js';
 
 export const router = Router();
 
@@ -48,3 +60,139 @@ router.post('/', requireAuth(), upload.array('file', 5), (req, res) => {
   res.json({ files, message: 'Arquivos enviados com sucesso' });
 });
 
+
+// Anexos de chat (fotos e notas de voz): guardados fora de /uploads e servidos só a quem tem acesso
+const chatAttachmentStorage = multer.diskStorage({
+  destination: (req, _file, cb) => {
+    cb(null, req.app.get('privateUploadsPath'));
+  },
+  filename: (_req, file, cb) => {
+    cb(null, `${randomUUID()}${path.extname(file.originalname).toLowerCase()}`);
+  },
+});
+
+const chatAttachmentUpload = multer({
+  storage: chatAttachmentStorage,
+  limits: { fileSize: MAX_ATTACHMENT_SIZE, files: MAX_ATTACHMENTS_PER_MESSAGE },
+  fileFilter: (_req, file, cb) => {
+    if (attachmentRule(file.mimetype, file.originalname)) {
+      return cb(null, true);
+    }
+    cb(new Error('Tipo de arquivo não permitido (apenas imagens e áudio)'));
+  },
+}).array('file', MAX_ATTACHMENTS_PER_MESSAGE);
+
+function removeFiles(files: Express.Multer.File[]) {
+  files.forEach((file) => fs.unlink(file.path, () => undefined));
+}
+
+router.post('/chat-attachments', requireAuth(), (req: any, res: any) => {
+  chatAttachmentUpload(req, res, async (uploadError: any) => {
+    const files: Express.Multer.File[] = Array.isArray(req.files) ? req.files : [];
+
+    if (uploadError) {
+      removeFiles(files);
+      const message = uploadError.code === 'LIMIT_FILE_SIZE' ? 'Arquivo demasiado grande' : uploadError.message;
+      return res.status(400).json({ message });
+    }
+    if (files.length === 0) {
+      return res.status(400).json({ message: 'Nenhum arquivo enviado' });
+    }
+
+    // O limite do multer é o maior; cada tipo tem o seu (imagens 5MB, áudio 10MB)
+    const tooLarge = files.find((file) => file.size > (attachmentRule(file.mimetype, file.originalname)?.maxSize ?? 0));
+    if (tooLarge) {
+      removeFiles(files);
+      return res.status(400).json({ message: `Arquivo demasiado grande: ${tooLarge.originalname}` });
+    }
+
+    try {
+      const attachments = await prisma.$transaction(
+        files.map((file) =>
+          prisma.chatAttachment.create({
+            data: {
+              uploaderId: req.userId,
+              kind: attachmentRule(file.mimetype, file.originalname)!.kind,
+              mimeType: file.mimetype,
+              size: file.size,
+              originalName: file.originalname,
+              storageKey: file.filename,
+            },
+          }),
+        ),
+      );
+
+      res.status(201).json({ attachments: attachments.map(presentAttachment), message: 'Arquivos enviados com sucesso' });
+    } catch (error: any) {
+      removeFiles(files);
+      console.error('[UPLOAD] Erro ao registar anexos:', error);
+      res.status(500).json({
+        message: 'Erro ao enviar anexos',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  });
+});
+
+// Anexo pendente: só quem o enviou; em mensagem: quem pode ler o thread ou o chat com a autoridade
+async function canAccessChatAttachment(attachmentId: string, userId: string, userRole: string) {
+  const attachment = await prisma.chatAttachment.findUnique({
+    where: { id: attachmentId },
+    include: {
+      chatMessage: {
+        select: {
+          deletedAt: true,
+          hiddenAt: true,
+          thread: {
+            include: { missingPerson: { select: { reporterId: true, approved: true, isDeleted: true } } },
+          },
+        },
+      },
+      authorityChatMessage: {
+        select: { chat: { select: { userId: true, authorityId: true, province: true, agency: true } } },
+      },
+    },
+  });
+
+  if (!attachment) {
+    return null;
+  }
+
+  if (attachment.chatMessage) {
+    const { chatMessage } = attachment;
+    if (chatMessage.deletedAt || (chatMessage.hiddenAt && !isModeratorRole(userRole))) {
+      return null;
+    }
+    const access = await getThreadAccess(chatMessage.thread, chatMessage.thread.missingPerson, { userId, role: userRole });
+    return access.canRead ? attachment : null;
+  }
+
+  if (attachment.authorityChatMessage) {
+    const { chat } = attachment.authorityChatMessage;
+    const staff = await prisma.user.findUnique({ where: { id: userId }, select: { province: true, agency: true } });
+    return canViewAuthorityChat(chat, { userId, role: userRole, ...staff }) ? attachment : null;
+  }
+
+  return attachment.uploaderId === userId ? attachment : null;
+}
+
+router.get('/chat-attachments/:id', requireAuth(), async (req: any, res: any) => {
+  try {
+    const attachment = await canAccessChatAttachment(req.params.id, req.userId, req.userRole);
+    if (!attachment) {
+      return res.status(404).json({ message: 'Anexo não encontrado' });
+    }
+
+    res.setHeader('Content-Type', attachment.mimeType);
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    res.setHeader('Content-Disposition', `inline; filename="${encodeURIComponent(attachment.originalName)}"`);
+    res.sendFile(path.join(req.app.get('privateUploadsPath'), attachment.storageKey));
+  } catch (error: any) {
+    console.error('[UPLOAD] Erro ao servir anexo:', error);
+    res.status(500).json({
+      message: 'Erro ao obter anexo',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+});
@@ -0,0 +1,489 @@
+import { Router } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { prisma } from '../lib/prisma.js';
+import { requireAuth } from '../middleware/auth.js';
+import { getMissionAccess } from '../services/mission-service.js';
+import {
+  isAvailableForShift,
+  missingSkills,
+  signUpForShift,
+  TIME_OF_DAY_REGEX,
+  VOLUNTEER_SKILLS,
+} from '../services/shift-service.js';
+
+export const router = Router();
+
+const volunteerRoles = ['VOLUNTARIO', 'MODERADOR', 'ADMIN'];
+const MAX_SHIFT_HOURS = 24;
+
+const signupInclude = {
+  signups: {
+    select: { userId: true, createdAt: true, user: { select: { id: true, fullName: true } } },
+    orderBy: { createdAt: 'asc' as const },
+  },
+};
+
+function withOpenSlots<T extends { requiredHeadcount: number; signups: unknown[] }>(shift: T) {
+  return { ...shift, openSlots: Math.max(shift.requiredHeadcount - shift.signups.length, 0) };
+}
+
+// Validações partilhadas entre criação e edição de turnos
+function shiftTimesError(startsAt: Date, endsAt: Date) {
+  if (endsAt <= startsAt) {
+    return 'O fim do turno tem de ser depois do início';
+  }
+  if (endsAt.getTime() - startsAt.getTime() > MAX_SHIFT_HOURS * 60 * 60 * 1000) {
+    return `Um turno não pode exceder ${MAX_SHIFT_HOURS} horas`;
+  }
+  return null;
+}
+
+// Perfil de disponibilidade do próprio voluntário
+router.get('/profile', requireAuth(volunteerRoles), async (req: any, res: any) => {
+  try {
+    const profile = await prisma.volunteerProfile.findUnique({
+      where: { userId: req.userId },
+      include: { availability: { orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }] } },
+    });
+
+    res.json({ profile });
+  } catch (error: any) {
+    console.error('[VOLUNTEER_SHIFTS] Erro ao obter perfil:', error);
+    res.status(500).json({
+      message: 'Erro ao obter perfil de voluntário',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+});
+
+// Criar ou substituir o perfil (as janelas de disponibilidade enviadas substituem as atuais)
+router.put(
+  '/profile',
+  requireAuth(volunteerRoles),
+  [
+    body('province').optional({ nullable: true }).isString().isLength({ max: 100 }),
+    body('municipality').optional({ nullable: true }).isString().isLength({ max: 100 }),
+    body('skills').optional().isArray({ max: VOLUNTEER_SKILLS.length }),
+    body('skills.*').optional().isIn(VOLUNTEER_SKILLS),
+    body('notes').optional({ nullable: true }).isString().isLength({ max: 1000 }),
+    body('active').optional().isBoolean().toBoolean(),
+    body('availability').optional().isArray({ max: 50 }),
+    body('availability.*.dayOfWeek').optional().isInt({ min: 0, max: 6 }).toInt(),
+    body('availability.*.startTime').optional().matches(TIME_OF_DAY_REGEX),
+    body('availability.*.endTime').optional().matches(TIME_OF_DAY_REGEX),
+  ],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { province, municipality, skills, notes, active, availability } = req.body;
+
+      if (
+        availability?.some(
+          (window: any) => window.dayOfWeek === undefined || !window.startTime || !window.endTime || window.startTime === window.endTime,
+        )
+      ) {
+        return res.status(400).json({ message: 'Cada janela precisa de dia da semana, hora de início e hora de fim diferentes' });
+      }
+
+      const data = {
+        ...(province !== undefined ? { province: province || null } : {}),
+        ...(municipality !== undefined ? { municipality: municipality || null } : {}),
+        ...(skills !== undefined ? { skills: Array.from(new Set(skills)) as any } : {}),
+        ...(notes !== undefined ? { notes: notes || null } : {}),
+        ...(active !== undefined ? { active } : {}),
+      };
+
+      const profile = await prisma.$transaction(async (tx) => {
+        const saved = await tx.volunteerProfile.upsert({
+          where: { userId: req.userId },
+          create: { userId: req.userId, ...data },
+          update: data,
+        });
+        if (availability !== undefined) {
+          await tx.volunteerAvailability.deleteMany({ where: { profileId: saved.id } });
+          await tx.volunteerAvailability.createMany({
+            data: availability.map((window: any) => ({
+              profileId: saved.id,
+              dayOfWeek: window.dayOfWeek,
+              startTime: window.startTime,
+              endTime: window.endTime,
+            })),
+          });
+        }
+        return tx.volunteerProfile.findUnique({
+          where: { id: saved.id },
+          include: { availability: { orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }] } },
+        });
+      });
+
+      res.json({ profile });
+    } catch (error: any) {
+      console.error('[VOLUNTEER_SHIFTS] Erro ao guardar perfil:', error);
+      res.status(500).json({
+        message: 'Erro ao guardar perfil de voluntário',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Turnos da missão com vagas livres; upcoming=true esconde os já terminados
+router.get(
+  '/missions/:missionId/shifts',
+  requireAuth(),
+  [param('missionId').isString(), query('upcoming').optional().isBoolean().toBoolean()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missionId } = req.params;
+      const mission = await prisma.volunteerMission.findUnique({ where: { id: missionId }, select: { id: true } });
+      if (!mission) {
+        return res.status(404).json({ message: 'Missão não encontrada' });
+      }
+
+      const shifts = await prisma.missionShift.findMany({
+        where: { missionId, ...(req.query.upcoming ? { endsAt: { gt: new Date() } } : {}) },
+        include: signupInclude,
+        orderBy: { startsAt: 'asc' },
+      });
+
+      res.json({
+        shifts: shifts.map(withOpenSlots),
+        myShiftIds: shifts
+          .filter((shift) => shift.signups.some((signup) => signup.userId === req.userId))
+          .map((shift) => shift.id),
+      });
+    } catch (error: any) {
+      console.error('[VOLUNTEER_SHIFTS] Erro ao listar turnos:', error);
+      res.status(500).json({
+        message: 'Erro ao listar turnos',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+router.post(
+  '/missions/:missionId/shifts',
+  requireAuth(),
+  [
+    param('missionId').isString(),
+    body('title').optional({ nullable: true }).isString().isLength({ max: 120 }),
+    body('startsAt').isISO8601(),
+    body('endsAt').isISO8601(),
+    body('requiredHeadcount').isInt({ min: 1, max: 500 }).toInt(),
+    body('requiredSkills').optional().isArray({ max: VOLUNTEER_SKILLS.length }),
+    body('requiredSkills.*').optional().isIn(VOLUNTEER_SKILLS),
+    body('notes').optional({ nullable: true }).isString().isLength({ max: 1000 }),
+  ],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missionId } = req.params;
+      const startsAt = new Date(req.body.startsAt);
+      const endsAt = new Date(req.body.endsAt);
+
+      const access = await getMissionAccess(missionId, { userId: req.userId, role: req.userRole });
+      if (!access) {
+        return res.status(404).json({ message: 'Missão não encontrada' });
+      }
+      if (!access.canManage) {
+        return res.status(403).json({ message: 'Sem permissão para gerir turnos desta missão' });
+      }
+      if (access.mission.status === 'CONCLUIDA') {
+        return res.status(400).json({ message: 'Missão já concluída' });
+      }
+
+      const timesError = shiftTimesError(startsAt, endsAt);
+      if (timesError) {
+        return res.status(400).json({ message: timesError });
+      }
+      if (startsAt <= new Date()) {
+        return res.status(400).json({ message: 'O turno tem de começar no futuro' });
+      }
+
+      const shift = await prisma.missionShift.create({
+        data: {
+          missionId,
+          title: req.body.title || null,
+          startsAt,
+          endsAt,
+          requiredHeadcount: req.body.requiredHeadcount,
+          requiredSkills: Array.from(new Set(req.body.requiredSkills ?? [])) as any,
+          notes: req.body.notes || null,
+          createdById: req.userId,
+        },
+        include: signupInclude,
+      });
+
+      res.status(201).json({ shift: withOpenSlots(shift) });
+    } catch (error: any) {
+      console.error('[VOLUNTEER_SHIFTS] Erro ao criar turno:', error);
+      res.status(500).json({
+        message: 'Erro ao criar turno',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Editar um turno; não é possível reduzir as vagas abaixo dos inscritos
+router.patch(
+  '/missions/:missionId/shifts/:shiftId',
+  requireAuth(),
+  [
+    param('missionId').isString(),
+    param('shiftId').isString(),
+    body('title').optional({ nullable: true }).isString().isLength({ max: 120 }),
+    body('startsAt').optional().isISO8601(),
+    body('endsAt').optional().isISO8601(),
+    body('requiredHeadcount').optional().isInt({ min: 1, max: 500 }).toInt(),
+    body('requiredSkills').optional().isArray({ max: VOLUNTEER_SKILLS.length }),
+    body('requiredSkills.*').optional().isIn(VOLUNTEER_SKILLS),
+    body('notes').optional({ nullable: true }).isString().isLength({ max: 1000 }),
+  ],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missionId, shiftId } = req.params;
+      const { title, requiredHeadcount, requiredSkills, notes } = req.body;
+
+      const access = await getMissionAccess(missionId, { userId: req.userId, role: req.userRole });
+      if (!access) {
+        return res.status(404).json({ message: 'Missão não encontrada' });
+      }
+      if (!access.canManage) {
+        return res.status(403).json({ message: 'Sem permissão para gerir turnos desta missão' });
+      }
+
+      const shift = await prisma.missionShift.findFirst({
+        where: { id: shiftId, missionId },
+        include: { _count: { select: { signups: true } } },
+      });
+      if (!shift) {
+        return res.status(404).json({ message: 'Turno não encontrado' });
+      }
+
+      const startsAt = req.body.startsAt ? new Date(req.body.startsAt) : shift.startsAt;
+      const endsAt = req.body.endsAt ? new Date(req.body.endsAt) : shift.endsAt;
+      const timesError = shiftTimesError(startsAt, endsAt);
+      if (timesError) {
+        return res.status(400).json({ message: timesError });
+      }
+      if (requiredHeadcount !== undefined && requiredHeadcount < shift._count.signups) {
+        return res.status(400).json({ message: `O turno já tem ${shift._count.signups} voluntário(s) inscrito(s)` });
+      }
+
+      const rescheduled = startsAt.getTime() !== shift.startsAt.getTime();
+      const updated = await prisma.$transaction(async (tx) => {
+        // Com nova hora de início os inscritos voltam a receber o lembrete
+        if (rescheduled) {
+          await tx.shiftSignup.updateMany({ where: { shiftId }, data: { reminderSentAt: null } });
+        }
+        return tx.missionShift.update({
+          where: { id: shiftId },
+          data: {
+            startsAt,
+            endsAt,
+            ...(title !== undefined ? { title: title || null } : {}),
+            ...(requiredHeadcount !== undefined ? { requiredHeadcount } : {}),
+            ...(requiredSkills !== undefined ? { requiredSkills: Array.from(new Set(requiredSkills)) as any } : {}),
+            ...(notes !== undefined ? { notes: notes || null } : {}),
+          },
+          include: signupInclude,
+        });
+      });
+
+      res.json({ shift: withOpenSlots(updated) });
+    } catch (error: any) {
+      console.error('[VOLUNTEER_SHIFTS] Erro ao atualizar turno:', error);
+      res.status(500).json({
+        message: 'Erro ao atualizar turno',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+router.delete(
+  '/missions/:missionId/shifts/:shiftId',
+  requireAuth(),
+  [param('missionId').isString(), param('shiftId').isString()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missionId, shiftId } = req.params;
+      const access = await getMissionAccess(missionId, { userId: req.userId, role: req.userRole });
+      if (!access) {
+        return res.status(404).json({ message: 'Missão não encontrada' });
+      }
+      if (!access.canManage) {
+        return res.status(403).json({ message: 'Sem permissão para gerir turnos desta missão' });
+      }
+
+      const { count } = await prisma.missionShift.deleteMany({ where: { id: shiftId, missionId } });
+      if (count === 0) {
+        return res.status(404).json({ message: 'Turno não encontrado' });
+      }
+
+      res.json({ message: 'Turno removido' });
+    } catch (error: any) {
+      console.error('[VOLUNTEER_SHIFTS] Erro ao remover turno:', error);
+      res.status(500).json({
+        message: 'Erro ao remover turno',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+router.post(
+  '/missions/:missionId/shifts/:shiftId/signup',
+  requireAuth(volunteerRoles),
+  [param('missionId').isString(), param('shiftId').isString()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missionId, shiftId } = req.params;
+      const result = await signUpForShift(missionId, shiftId, req.userId);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.error });
+      }
+
+      res.status(201).json({ signup: result.signup, missingSkills: result.missingSkills });
+    } catch (error: any) {
+      console.error('[VOLUNTEER_SHIFTS] Erro ao inscrever no turno:', error);
+      res.status(500).json({
+        message: 'Erro ao inscrever no turno',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+router.delete(
+  '/missions/:missionId/shifts/:shiftId/signup',
+  requireAuth(volunteerRoles),
+  [param('missionId').isString(), param('shiftId').isString()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missionId, shiftId } = req.params;
+      const { count } = await prisma.shiftSignup.deleteMany({
+        where: { shiftId, userId: req.userId, shift: { missionId } },
+      });
+      if (count === 0) {
+        return res.status(404).json({ message: 'Não está inscrito neste turno' });
+      }
+
+      res.json({ message: 'Inscrição no turno cancelada' });
+    } catch (error: any) {
+      console.error('[VOLUNTEER_SHIFTS] Erro ao cancelar inscrição:', error);
+      res.status(500).json({
+        message: 'Erro ao cancelar inscrição no turno',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+/**
+ * Voluntários inscritos na missão e disponíveis à hora do turno, ordenados pelas competências
+ * exigidas que cobrem. Só quem gere a missão.
+ */
+router.get(
+  '/missions/:missionId/shifts/:shiftId/candidates',
+  requireAuth(),
+  [param('missionId').isString(), param('shiftId').isString()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missionId, shiftId } = req.params;
+      const access = await getMissionAccess(missionId, { userId: req.userId, role: req.userRole });
+      if (!access) {
+        return res.status(404).json({ message: 'Missão não encontrada' });
+      }
+      if (!access.canManage) {
+        return res.status(403).json({ message: 'Sem permissão para gerir turnos desta missão' });
+      }
+
+      const shift = await prisma.missionShift.findFirst({
+        where: { id: shiftId, missionId },
+        include: { signups: { select: { userId: true } } },
+      });
+      if (!shift) {
+        return res.status(404).json({ message: 'Turno não encontrado' });
+      }
+
+      const participants = await prisma.missionParticipant.findMany({
+        where: { missionId, userId: { notIn: shift.signups.map((signup) => signup.userId) } },
+        select: {
+          user: {
+            select: {
+              id: true,
+              fullName: true,
+              volunteerProfile: { include: { availability: true } },
+            },
+          },
+        },
+      });
+
+      const candidates = participants
+        .map(({ user }) => user)
+        .filter((user) => user.volunteerProfile?.active)
+        .filter((user) => isAvailableForShift(user.volunteerProfile!.availability, shift.startsAt, shift.endsAt))
+        .map((user) => {
+          const missing = missingSkills(shift.requiredSkills, user.volunteerProfile!.skills);
+          return {
+            id: user.id,
+            fullName: user.fullName,
+            province: user.volunteerProfile!.province,
+            skills: user.volunteerProfile!.skills,
+            matchedSkills: shift.requiredSkills.length - missing.length,
+            missingSkills: missing,
+          };
+        })
+        .sort((a, b) => b.matchedSkills - a.matchedSkills);
+
+      res.json({ candidates, openSlots: Math.max(shift.requiredHeadcount - shift.signups.length, 0) });
+    } catch (error: any) {
+      console.error('[VOLUNTEER_SHIFTS] Erro ao listar candidatos:', error);
+      res.status(500).json({
+        message: 'Erro ao listar candidatos ao turno',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
@@ -1,71 +1,636 @@
 import { Router } from 'express';
-import { body, param, validationResult } from 'express-validator';
+import { body, param, query, validationResult } from 'express-validator';
 import { prisma } from '../lib/prisma.js';
 import { requireAuth } from '../middleware/auth.js';
+import {
+  canManageMission,
+  canTransitionMission,
+  checkInError,
+  enrollInMission,
+  findLinkableCaseIds,
+  getMissionParticipation,
+  linkedCaseSelect,
+  missionVisibleCaseWhere,
+  removeMissionParticipant,
+} from '../services/mission-service.js';
 
 export const router = Router();
 
-router.get('/missions', requireAuth(), async (_req, res) => {
-  const missions = await prisma.volunteerMission.findMany({
-    orderBy: { createdAt: 'desc' },
-  });
-  res.json({ items: missions });
-});
+const missionStatuses = ['PLANEJADA', 'ATIVA', 'PAUSADA', 'CONCLUIDA'];
+const priorityLevels = ['GERAL', 'CRIANCA', 'IDOSO', 'DEFICIENCIA', 'URGENTE'];
+const volunteerRoles = ['VOLUNTARIO', 'MODERADOR', 'ADMIN'];
+
+// O telefone dos participantes só é devolvido a quem gere a missão
+const participantInclude = {
+  user: { select: { id: true, fullName: true, phone: true } },
+} as const;
+
+router.get(
+  '/missions',
+  requireAuth(),
+  [
+    query('status').optional().isIn(missionStatuses),
+    query('province').optional().isString(),
+    query('mine').optional().isBoolean(),
+    query('caseId').optional().isString(),
+  ],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const where: any = {};
+      if (req.query.status) where.status = req.query.status;
+      if (req.query.province) where.province = req.query.province;
+      if (req.query.mine === 'true') where.participants = { some: { userId: req.userId } };
+      if (req.query.caseId) where.cases = { some: { missingPersonId: req.query.caseId } };
+
+      const missions = await prisma.volunteerMission.findMany({
+        where,
+        include: {
+          _count: { select: { participants: true, checkIns: true } },
+          participants: { where: { userId: req.userId }, select: { role: true } },
+          cases: {
+            where: { missingPerson: missionVisibleCaseWhere },
+            select: { missingPerson: { select: linkedCaseSelect } },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      res.json({
+        items: missions.map(({ participants, ...mission }) => ({
+          ...mission,
+          myRole: participants[0]?.role ?? null,
+        })),
+      });
+    } catch (error: any) {
+      console.error('[VOLUNTEERS] Erro ao listar missões:', error);
+      res.status(500).json({
+        message: 'Erro ao listar missões',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
 
 router.post(
   '/missions',
-  requireAuth(['VOLUNTARIO', 'MODERADOR', 'ADMIN']),
+  requireAuth(volunteerRoles),
   [
     body('title').isString(),
     body('province').isString(),
     body('description').optional().isString(),
     body('municipality').optional().isString(),
+    body('priority').optional().isIn(priorityLevels),
     body('startsAt').optional().isISO8601(),
     body('endsAt').optional().isISO8601(),
+    body('maxParticipants').optional().isInt({ min: 1 }).toInt(),
+    body('caseIds').optional().isArray({ max: 20 }),
+    body('caseIds.*').optional().isString(),
   ],
-  async (req, res) => {
+  async (req: any, res: any) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const mission = await prisma.volunteerMission.create({
-      data: {
-        title: req.body.title,
-        description: req.body.description,
-        province: req.body.province,
-        municipality: req.body.municipality,
-        startsAt: req.body.startsAt ? new Date(req.body.startsAt) : undefined,
-        endsAt: req.body.endsAt ? new Date(req.body.endsAt) : undefined,
-        ownerId: req.userId!,
+    try {
+      const requestedCaseIds: string[] = Array.from(new Set(req.body.caseIds ?? []));
+      const caseIds = await findLinkableCaseIds(requestedCaseIds);
+      if (caseIds.length !== requestedCaseIds.length) {
+        return res.status(404).json({ message: 'Caso não encontrado' });
+      }
+
+      // O criador fica inscrito como líder
+      const mission = await prisma.volunteerMission.create({
+        data: {
+          title: req.body.title,
+          description: req.body.description,
+          province: req.body.province,
+          municipality: req.body.municipality,
+          priority: req.body.priority,
+          startsAt: req.body.startsAt ? new Date(req.body.startsAt) : undefined,
+          endsAt: req.body.endsAt ? new Date(req.body.endsAt) : undefined,
+          maxParticipants: req.body.maxParticipants,
+          ownerId: req.userId,
+          participants: { create: { userId: req.userId, role: 'LIDER' } },
+          cases: { create: caseIds.map((missingPersonId) => ({ missingPersonId, linkedById: req.userId })) },
+        },
+        include: { cases: { include: { missingPerson: { select: linkedCaseSelect } } } },
+      });
+
+      res.status(201).json({ mission });
+    } catch (error: any) {
+      console.error('[VOLUNTEERS] Erro ao criar missão:', error);
+      res.status(500).json({
+        message: 'Erro ao criar missão',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+router.get('/missions/:missionId', requireAuth(), [param('missionId').isString()], async (req: any, res: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  try {
+    const mission = await prisma.volunteerMission.findUnique({
+      where: { id: req.params.missionId },
+      include: {
+        owner: { select: { id: true, fullName: true } },
+        participants: { include: participantInclude, orderBy: { joinedAt: 'asc' } },
+        cases: {
+          where: { missingPerson: missionVisibleCaseWhere },
+          include: { missingPerson: { select: linkedCaseSelect } },
+          orderBy: { createdAt: 'asc' },
+        },
+        _count: { select: { checkIns: true, debriefs: true } },
       },
     });
 
-    res.status(201).json({ mission });
+    if (!mission) {
+      return res.status(404).json({ message: 'Missão não encontrada' });
+    }
+
+    const participation = mission.participants.find((participant) => participant.userId === req.userId) ?? null;
+    const canManage = canManageMission(mission, participation, { userId: req.userId, role: req.userRole });
+
+    res.json({
+      mission: canManage
+        ? mission
+        : {
+            ...mission,
+            participants: mission.participants.map(({ user: { phone: _phone, ...user }, ...participant }) => ({
+              ...participant,
+              user,
+            })),
+          },
+      myRole: participation?.role ?? null,
+      canManage,
+      availableSlots:
+        mission.maxParticipants === null ? null : Math.max(mission.maxParticipants - mission.participants.length, 0),
+    });
+  } catch (error: any) {
+    console.error('[VOLUNTEERS] Erro ao buscar missão:', error);
+    res.status(500).json({
+      message: 'Erro ao buscar missão',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+});
+
+// Atualizar dados da missão (criador, líderes, moderadores)
+router.patch(
+  '/missions/:missionId',
+  requireAuth(),
+  [
+    param('missionId').isString(),
+    body('title').optional().isString().notEmpty(),
+    body('description').optional({ nullable: true }).isString(),
+    body('province').optional().isString().notEmpty(),
+    body('municipality').optional({ nullable: true }).isString(),
+    body('priority').optional().isIn(priorityLevels),
+    body('startsAt').optional({ nullable: true }).isISO8601(),
+    body('endsAt').optional({ nullable: true }).isISO8601(),
+    body('maxParticipants').optional({ nullable: true }).isInt({ min: 1 }).toInt(),
+  ],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missionId } = req.params;
+      const mission = await prisma.volunteerMission.findUnique({
+        where: { id: missionId },
+        include: { _count: { select: { participants: true } } },
+      });
+      if (!mission) {
+        return res.status(404).json({ message: 'Missão não encontrada' });
+      }
+
+      const participation = await getMissionParticipation(missionId, req.userId);
+      if (!canManageMission(mission, participation, { userId: req.userId, role: req.userRole })) {
+        return res.status(403).json({ message: 'Sem permissão para alterar esta missão' });
+      }
+      if (mission.status === 'CONCLUIDA') {
+        return res.status(400).json({ message: 'Missão já concluída' });
+      }
+
+      const { title, description, province, municipality, priority, startsAt, endsAt, maxParticipants } = req.body;
+      if (maxParticipants && maxParticipants < mission._count.participants) {
+        return res.status(400).json({
+          message: `A missão já tem ${mission._count.participants} participantes inscritos`,
+        });
+      }
+
+      const data: any = {};
+      if (title !== undefined) data.title = title;
+      if (description !== undefined) data.description = description || null;
+      if (province !== undefined) data.province = province;
+      if (municipality !== undefined) data.municipality = municipality || null;
+      if (priority !== undefined) data.priority = priority;
+      if (startsAt !== undefined) data.startsAt = startsAt ? new Date(startsAt) : null;
+      if (endsAt !== undefined) data.endsAt = endsAt ? new Date(endsAt) : null;
+      if (maxParticipants !== undefined) data.maxParticipants = maxParticipants || null;
+
+      const updated = await prisma.volunteerMission.update({ where: { id: missionId }, data });
+
+      res.json({ mission: updated });
+    } catch (error: any) {
+      console.error('[VOLUNTEERS] Erro ao atualizar missão:', error);
+      res.status(500).json({
+        message: 'Erro ao atualizar missão',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Eliminar missão: só enquanto está planeada (depois disso deve ser concluída)
+router.delete('/missions/:missionId', requireAuth(), [param('missionId').isString()], async (req: any, res: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  try {
+    const mission = await prisma.volunteerMission.findUnique({
+      where: { id: req.params.missionId },
+      select: { id: true, ownerId: true, status: true },
+    });
+    if (!mission) {
+      return res.status(404).json({ message: 'Missão não encontrada' });
+    }
+    if (mission.ownerId !== req.userId && req.userRole !== 'ADMIN') {
+      return res.status(403).json({ message: 'Apenas o criador pode eliminar a missão' });
+    }
+    if (mission.status !== 'PLANEJADA') {
+      return res.status(400).json({ message: 'Apenas missões planeadas podem ser eliminadas' });
+    }
+
+    await prisma.volunteerMission.delete({ where: { id: mission.id } });
+
+    res.json({ message: 'Missão eliminada' });
+  } catch (error: any) {
+    console.error('[VOLUNTEERS] Erro ao eliminar missão:', error);
+    res.status(500).json({
+      message: 'Erro ao eliminar missão',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+});
+
+// Alterar estado (PLANEJADA → ATIVA ⇄ PAUSADA → CONCLUIDA)
+router.patch(
+  '/missions/:missionId/status',
+  requireAuth(),
+  [param('missionId').isString(), body('status').isIn(missionStatuses)],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missionId } = req.params;
+      const { status } = req.body;
+
+      const mission = await prisma.volunteerMission.findUnique({ where: { id: missionId } });
+      if (!mission) {
+        return res.status(404).json({ message: 'Missão não encontrada' });
+      }
+
+      const participation = await getMissionParticipation(missionId, req.userId);
+      if (!canManageMission(mission, participation, { userId: req.userId, role: req.userRole })) {
+        return res.status(403).json({ message: 'Sem permissão para alterar esta missão' });
+      }
+      if (!canTransitionMission(mission.status, status)) {
+        return res.status(400).json({ message: `Transição inválida: ${mission.status} → ${status}` });
+      }
+
+      // Atualização condicional: evita aplicar duas transições a partir do mesmo estado
+      const now = new Date();
+      const { count } = await prisma.volunteerMission.updateMany({
+        where: { id: missionId, status: mission.status },
+        data: {
+          status,
+          ...(status === 'ATIVA' && !mission.startedAt ? { startedAt: now } : {}),
+          ...(status === 'CONCLUIDA' ? { completedAt: now } : {}),
+        },
+      });
+      if (count === 0) {
+        return res.status(409).json({ message: 'O estado da missão foi alterado entretanto' });
+      }
+
+      const updated = await prisma.volunteerMission.findUnique({ where: { id: missionId } });
+
+      res.json({ mission: updated });
+    } catch (error: any) {
+      console.error('[VOLUNTEERS] Erro ao alterar estado:', error);
+      res.status(500).json({
+        message: 'Erro ao alterar estado da missão',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
   },
 );
 
+// Ligar um caso à missão
 router.post(
-  '/missions/:missionId/check-in',
-  requireAuth(['VOLUNTARIO', 'MODERADOR', 'ADMIN']),
-  [param('missionId').isString(), body('latitude').isFloat(), body('longitude').isFloat(), body('notes').optional().isString()],
-  async (req, res) => {
+  '/missions/:missionId/cases',
+  requireAuth(),
+  [param('missionId').isString(), body('missingPersonId').isString()],
+  async (req: any, res: any) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const checkIn = await prisma.missionCheckIn.create({
-      data: {
-        missionId: req.params.missionId,
-        volunteerId: req.userId!,
-        latitude: req.body.latitude,
-        longitude: req.body.longitude,
-        notes: req.body.notes,
-      },
+    try {
+      const { missionId } = req.params;
+      const { missingPersonId } = req.body;
+
+      const mission = await prisma.volunteerMission.findUnique({
+        where: { id: missionId },
+        select: { ownerId: true, status: true },
+      });
+      if (!mission) {
+        return res.status(404).json({ message: 'Missão não encontrada' });
+      }
+
+      const participation = await getMissionParticipation(missionId, req.userId);
+      if (!canManageMission(mission, participation, { userId: req.userId, role: req.userRole })) {
+        return res.status(403).json({ message: 'Sem permissão para alterar esta missão' });
+      }
+      if (mission.status === 'CONCLUIDA') {
+        return res.status(400).json({ message: 'Missão já concluída' });
+      }
+      if ((await findLinkableCaseIds([missingPersonId])).length === 0) {
+        return res.status(404).json({ message: 'Caso não encontrado' });
+      }
+
+      const link = await prisma.missionCase.upsert({
+        where: { missionId_missingPersonId: { missionId, missingPersonId } },
+        update: {},
+        create: { missionId, missingPersonId, linkedById: req.userId },
+        include: { missingPerson: { select: linkedCaseSelect } },
+      });
+
+      res.status(201).json({ link });
+    } catch (error: any) {
+      console.error('[VOLUNTEERS] Erro ao ligar caso:', error);
+      res.status(500).json({
+        message: 'Erro ao ligar caso à missão',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Desligar um caso da missão
+router.delete(
+  '/missions/:missionId/cases/:caseId',
+  requireAuth(),
+  [param('missionId').isString(), param('caseId').isString()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missionId, caseId } = req.params;
+      const mission = await prisma.volunteerMission.findUnique({
+        where: { id: missionId },
+        select: { ownerId: true },
+      });
+      if (!mission) {
+        return res.status(404).json({ message: 'Missão não encontrada' });
+      }
+
+      const participation = await getMissionParticipation(missionId, req.userId);
+      if (!canManageMission(mission, participation, { userId: req.userId, role: req.userRole })) {
+        return res.status(403).json({ message: 'Sem permissão para alterar esta missão' });
+      }
+
+      const { count } = await prisma.missionCase.deleteMany({ where: { missionId, missingPersonId: caseId } });
+      if (count === 0) {
+        return res.status(404).json({ message: 'Caso não está ligado a esta missão' });
+      }
+
+      res.json({ message: 'Caso desligado da missão' });
+    } catch (error: any) {
+      console.error('[VOLUNTEERS] Erro ao desligar caso:', error);
+      res.status(500).json({
+        message: 'Erro ao desligar caso da missão',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Inscrever-se numa missão
+router.post(
+  '/missions/:missionId/join',
+  requireAuth(volunteerRoles),
+  [param('missionId').isString()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const result = await enrollInMission(req.params.missionId, req.userId);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.error });
+      }
+
+      res.status(201).json({ participant: result.participant });
+    } catch (error: any) {
+      console.error('[VOLUNTEERS] Erro ao inscrever:', error);
+      res.status(500).json({
+        message: 'Erro ao inscrever na missão',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Sair de uma missão (o criador não sai da própria missão)
+router.post('/missions/:missionId/leave', requireAuth(), [param('missionId').isString()], async (req: any, res: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  try {
+    const { missionId } = req.params;
+    const mission = await prisma.volunteerMission.findUnique({
+      where: { id: missionId },
+      select: { ownerId: true },
+    });
+    if (!mission) {
+      return res.status(404).json({ message: 'Missão não encontrada' });
+    }
+    if (mission.ownerId === req.userId) {
+      return res.status(400).json({ message: 'O criador da missão não pode sair dela' });
+    }
+
+    const removed = await removeMissionParticipant(missionId, req.userId);
+    if (!removed) {
+      return res.status(404).json({ message: 'Não está inscrito nesta missão' });
+    }
+
+    res.json({ message: 'Saiu da missão' });
+  } catch (error: any) {
+    console.error('[VOLUNTEERS] Erro ao sair da missão:', error);
+    res.status(500).json({
+      message: 'Erro ao sair da missão',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
     });
+  }
+});
+
+// Alterar o papel de um participante (líder/membro)
+router.patch(
+  '/missions/:missionId/participants/:userId',
+  requireAuth(),
+  [param('missionId').isString(), param('userId').isString(), body('role').isIn(['LIDER', 'MEMBRO'])],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missionId, userId } = req.params;
+      const mission = await prisma.volunteerMission.findUnique({
+        where: { id: missionId },
+        select: { ownerId: true },
+      });
+      if (!mission) {
+        return res.status(404).json({ message: 'Missão não encontrada' });
+      }
+
+      const participation = await getMissionParticipation(missionId, req.userId);
+      if (!canManageMission(mission, participation, { userId: req.userId, role: req.userRole })) {
+        return res.status(403).json({ message: 'Sem permissão para gerir participantes' });
+      }
+      if (userId === mission.ownerId && req.body.role !== 'LIDER') {
+        return res.status(400).json({ message: 'O criador da missão é sempre líder' });
+      }
+
+      const target = await getMissionParticipation(missionId, userId);
+      if (!target) {
+        return res.status(404).json({ message: 'Participante não encontrado' });
+      }
+
+      const participant = await prisma.missionParticipant.update({
+        where: { id: target.id },
+        data: { role: req.body.role },
+        include: participantInclude,
+      });
+
+      res.json({ participant });
+    } catch (error: any) {
+      console.error('[VOLUNTEERS] Erro ao alterar participante:', error);
+      res.status(500).json({
+        message: 'Erro ao alterar participante',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
+
+// Remover um participante da missão
+router.delete(
+  '/missions/:missionId/participants/:userId',
+  requireAuth(),
+  [param('missionId').isString(), param('userId').isString()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missionId, userId } = req.params;
+      const mission = await prisma.volunteerMission.findUnique({
+        where: { id: missionId },
+        select: { ownerId: true },
+      });
+      if (!mission) {
+        return res.status(404).json({ message: 'Missão não encontrada' });
+      }
+
+      const participation = await getMissionParticipation(missionId, req.userId);
+      if (!canManageMission(mission, participation, { userId: req.userId, role: req.userRole })) {
+        return res.status(403).json({ message: 'Sem permissão para gerir participantes' });
+      }
+      if (userId === mission.ownerId) {
+        return res.status(400).json({ message: 'O criador da missão não pode ser removido' });
+      }
 
-    res.status(201).json({ checkIn });
+      const removed = await removeMissionParticipant(missionId, userId);
+      if (!removed) {
+        return res.status(404).json({ message: 'Participante não encontrado' });
+      }
+
+      res.json({ message: 'Participante removido' });
+    } catch (error: any) {
+      console.error('[VOLUNTEERS] Erro ao remover participante:', error);
+      res.status(500).json({
+        message: 'Erro ao remover participante',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
   },
 );
 
+// Check-in: só voluntários inscritos e com a missão ativa
+router.post(
+  '/missions/:missionId/check-in',
+  requireAuth(volunteerRoles),
+  [param('missionId').isString(), body('latitude').isFloat(), body('longitude').isFloat(), body('notes').optional().isString()],
+  async (req: any, res: any) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { missionId } = req.params;
+      const rejection = await checkInError(missionId, req.userId);
+      if (rejection) {
+        return res.status(rejection.status).json({ message: rejection.error });
+      }
+
+      const checkIn = await prisma.missionCheckIn.create({
+        data: {
+          missionId,
+          volunteerId: req.userId,
+          latitude: req.body.latitude,
+          longitude: req.body.longitude,
+          notes: req.body.notes,
+        },
+      });
+
+      res.status(201).json({ checkIn });
+    } catch (error: any) {
+      console.error('[VOLUNTEERS] Erro no check-in:', error);
+      res.status(500).json({
+        message: 'Erro ao registar check-in',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  },
+);
@@ -0,0 +1,228 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { AlertType } from '@prisma/client';
+import { emitNotification } from '../lib/socket.js';
+import { sendEmail } from './email-service.js';
+import { pushAlert } from './notification-service.js';
+
+export type AlertRecipient = {
+  userId?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  deviceToken?: string | null;
+};
+
+export type AlertMessage = {
+  title: string;
+  message: string;
+  data?: Record<string, string>;
+};
+
+export type DeliveryResult = {
+  success: boolean;
+  error?: string;
+  providerMessageId?: string;
+  // Falha definitiva (ex: destinatário sem contacto), não deve ser reenviada
+  permanent?: boolean;
+  // O provedor recusou o destinatário (endereço/número inválido)
+  bounced?: boolean;
+};
+
+/**
+ * Contrato dos provedores de entrega de alertas.
+ * Cada canal (AlertType) tem um provedor real e todos podem ser trocados pelo provedor local
+ * definindo ALERT_DELIVERY_MODE=console (útil em desenvolvimento e testes sem rede).
+ */
+export interface AlertChannelProvider {
+  name: string;
+  send(recipient: AlertRecipient, alert: AlertMessage): Promise<DeliveryResult>;
+}
+
+// Push via Firebase Cloud Messaging
+const firebasePushProvider: AlertChannelProvider = {
+  name: 'firebase',
+  async send(recipient, alert) {
+    if (!recipient.deviceToken) {
+      return { success: false, error: 'Destinatário sem deviceToken', permanent: true };
+    }
+
+    const sent = await pushAlert({
+      type: 'PUSH',
+      deviceToken: recipient.deviceToken,
+      title: alert.title,
+      message: alert.message,
+      data: alert.data,
+    });
+
+    return sent ? { success: true } : { success: false, error: 'Falha no envio via Firebase' };
+  },
+};
+
+const SMS_GATEWAY_TIMEOUT_MS = 10 * 1000;
+
+// Título e mensagem podem conter texto de usuários (ex: pré-visualização do chat)
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Email via SMTP (mesma configuração do email de recuperação de senha)
+const smtpEmailProvider: AlertChannelProvider = {
+  name: 'smtp',
+  async send(recipient, alert) {
+    if (!recipient.email) {
+      return { success: false, error: 'Destinatário sem email', permanent: true };
+    }
+
+    try {
+      const frontendUrl = (process.env.FRONTEND_URL || 'http://localhost:5174').replace(/\/$/, '');
+      const caseUrl = alert.data?.missingPersonId ? `${frontendUrl}/casos/${alert.data.missingPersonId}` : null;
+
+      const { messageId, rejected } = await sendEmail({
+        to: recipient.email,
+        subject: alert.title,
+        text: caseUrl ? `${alert.message}\n\n${caseUrl}` : alert.message,
+        html: `
+          <div style="font-family: Arial, sans-serif; line-height: 1.5; color: #0f172a;">
+            <h2 style="color: #0f172a;">${escapeHtml(alert.title)}</h2>
+            <p>${escapeHtml(alert.message)}</p>
+            ${caseUrl ? `<p><a href="${escapeHtml(caseUrl)}" style="color: #2563eb;">Ver caso</a></p>` : ''}
+            <p style="margin-top: 32px; font-size: 14px; color: #475569;">
+              Equipa Base de Dados de Pessoas Desaparecidas
+            </p>
+          </div>
+        `,
+      });
+
+      if (rejected.length > 0) {
+        return { success: false, error: `Email recusado: ${rejected.join(', ')}`, bounced: true, permanent: true };
+      }
+
+      return { success: true, providerMessageId: messageId };
+    } catch (error: any) {
+      return { success: false, error: error.message || 'Falha no envio de email' };
+    }
+  },
+};
+
+// SMS via gateway HTTP genérico (POST JSON { to, from, message })
+const httpSmsProvider: AlertChannelProvider = {
+  name: 'http-sms',
+  async send(recipient, alert) {
+    if (!recipient.phone) {
+      return { success: false, error: 'Destinatário sem telefone', permanent: true };
+    }
+
+    const gatewayUrl = process.env.SMS_GATEWAY_URL;
+    if (!gatewayUrl) {
+      return { success: false, error: 'SMS_GATEWAY_URL não configurado' };
+    }
+
+    try {
+      const response = await fetch(gatewayUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(process.env.SMS_GATEWAY_TOKEN ? { Authorization: `Bearer ${process.env.SMS_GATEWAY_TOKEN}` } : {}),
+        },
+        body: JSON.stringify({
+          to: recipient.phone,
+          from: process.env.SMS_SENDER || undefined,
+          message: `${alert.title}: ${alert.message}`.substring(0, 480),
+        }),
+        // Um gateway sem resposta não pode bloquear o worker de reenvios
+        signal: AbortSignal.timeout(SMS_GATEWAY_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        // 4xx (exceto timeout/limite de taxa) indica número ou pedido recusado pelo gateway
+        const rejected = response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429;
+        return { success: false, error: `Gateway SMS respondeu ${response.status}`, bounced: rejected, permanent: rejected };
+      }
+
+      const body = await response.json().catch(() => null) as { id?: string; messageId?: string } | null;
+      return { success: true, providerMessageId: body?.messageId ?? body?.id };
+    } catch (error: any) {
+      return { success: false, error: error.message || 'Falha no envio de SMS' };
+    }
+  },
+};
+
+// Notificação dentro da aplicação (Socket.IO)
+const inAppProvider: AlertChannelProvider = {
+  name: 'socket',
+  async send(recipient, alert) {
+    if (!recipient.userId) {
+      return { success: false, error: 'Destinatário sem usuário', permanent: true };
+    }
+
+    emitNotification({
+      userId: recipient.userId,
+      type: 'missing_person_alert',
+      title: alert.title,
+      message: alert.message,
+      metadata: alert.data,
+    });
+
+    return { success: true };
+  },
+};
+
+// Provedor local: escreve no console e, se ALERT_OUTBOX_PATH estiver definido, num ficheiro JSONL
+function createConsoleProvider(channel: AlertType): AlertChannelProvider {
+  return {
+    name: 'console',
+    async send(recipient, alert) {
+      const entry = {
+        channel,
+        recipient,
+        title: alert.title,
+        message: alert.message,
+        data: alert.data,
+        sentAt: new Date().toISOString(),
+      };
+
+      console.log(`[ALERT:${channel}] ${JSON.stringify(entry)}`);
+
+      const outboxPath = process.env.ALERT_OUTBOX_PATH;
+      if (outboxPath) {
+        await fs.mkdir(path.dirname(path.resolve(outboxPath)), { recursive: true });
+        await fs.appendFile(outboxPath, `${JSON.stringify(entry)}\n`);
+      }
+
+      return { success: true };
+    },
+  };
+}
+
+const providers: Record<AlertType, AlertChannelProvider> = {
+  PUSH: firebasePushProvider,
+  EMAIL: smtpEmailProvider,
+  SMS: httpSmsProvider,
+  APLICATIVO: inAppProvider,
+};
+
+export function getChannelProvider(channel: AlertType): AlertChannelProvider {
+  if (process.env.ALERT_DELIVERY_MODE === 'console') {
+    return createConsoleProvider(channel);
+  }
+  return providers[channel];
+}
+
+// Permite substituir o provedor de um canal (ex: outro gateway de SMS)
+export function registerChannelProvider(channel: AlertType, provider: AlertChannelProvider) {
+  providers[channel] = provider;
+}
+
+export async function deliverAlert(channel: AlertType, recipient: AlertRecipient, alert: AlertMessage): Promise<DeliveryResult> {
+  try {
+    return await getChannelProvider(channel).send(recipient, alert);
+  } catch (error: any) {
+    console.error(`[ALERT:${channel}] Erro ao entregar alerta:`, error);
+    return { success: false, error: error.message || 'Erro desconhecido' };
+  }
+}
@@ -0,0 +1,182 @@
+import type { AlertDelivery, AlertType } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { deliverAlert } from './alert-channel-service.js';
+
+const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+const WORKER_INTERVAL_MS = 30 * 1000;
+const WORKER_BATCH_SIZE = 50;
+// Reserva de uma entrega durante o envio; se o processo cair, o worker retoma-a quando expirar
+const SEND_LEASE_MS = 2 * 60 * 1000;
+
+export const ALERT_TITLE = 'Alerta de desaparecimento';
+
+type QueuedRecipient = {
+  subscriptionId?: string | null;
+  userId?: string | null;
+  channel: AlertType;
+};
+
+// Backoff exponencial: 30s, 1min, 2min, 4min... até 1h
+export function nextAttemptDelay(attempts: number) {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1), MAX_BACKOFF_MS);
+}
+
+/**
+ * Cria uma linha de entrega por destinatário/canal, com estado QUEUED. A próxima tentativa fica
+ * reservada para o envio imediato de quem criou a fila, para o worker não a apanhar em paralelo.
+ */
+export async function queueAlertDeliveries(alertLogId: string, recipients: QueuedRecipient[]) {
+  if (recipients.length === 0) {
+    return [];
+  }
+
+  await prisma.alertDelivery.createMany({
+    data: recipients.map((recipient) => ({
+      alertLogId,
+      subscriptionId: recipient.subscriptionId ?? null,
+      userId: recipient.userId ?? null,
+      channel: recipient.channel,
+      nextAttemptAt: new Date(Date.now() + SEND_LEASE_MS),
+    })),
+  });
+
+  return prisma.alertDelivery.findMany({ where: { alertLogId } });
+}
+
+// Reserva atómica: só quem move nextAttemptAt a partir do valor lido envia (envio imediato vs. worker)
+async function claimDelivery(delivery: AlertDelivery) {
+  const { count } = await prisma.alertDelivery.updateMany({
+    where: { id: delivery.id, status: 'QUEUED', nextAttemptAt: delivery.nextAttemptAt },
+    data: { nextAttemptAt: new Date(Date.now() + SEND_LEASE_MS) },
+  });
+  return count === 1;
+}
+
+/**
+ * Tenta entregar uma linha de AlertDelivery e atualiza estado, tentativas e próxima tentativa.
+ * O destinatário é lido no momento do envio, para usar o contacto/deviceToken mais recente.
+ * Se outra execução já reservou a entrega, devolve o estado atual sem enviar.
+ */
+export async function attemptDelivery(delivery: AlertDelivery) {
+  if (!(await claimDelivery(delivery))) {
+    return (await prisma.alertDelivery.findUnique({ where: { id: delivery.id } })) ?? delivery;
+  }
+
+  const [alertLog, subscription, user] = await Promise.all([
+    prisma.alertLog.findUnique({ where: { id: delivery.alertLogId } }),
+    delivery.subscriptionId
+      ? prisma.alertSubscription.findUnique({ where: { id: delivery.subscriptionId }, select: { deviceToken: true } })
+      : null,
+    delivery.userId
+      ? prisma.user.findUnique({ where: { id: delivery.userId }, select: { id: true, email: true, phone: true } })
+      : null,
+  ]);
+
+  if (!alertLog) {
+    return delivery;
+  }
+
+  const payload = (alertLog.payload ?? {}) as { message?: string; title?: string };
+  const attempts = delivery.attempts + 1;
+
+  const result = await deliverAlert(
+    delivery.channel,
+    {
+      userId: user?.id,
+      email: user?.email,
+      phone: user?.phone,
+      deviceToken: subscription?.deviceToken,
+    },
+    {
+      title: payload.title || ALERT_TITLE,
+      message: payload.message || '',
+      data: { missingPersonId: alertLog.missingPersonId, alertLogId: alertLog.id },
+    },
+  );
+
+  if (result.success) {
+    const sentAt = new Date();
+    const updated = await prisma.alertDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: 'SENT',
+        attempts,
+        sentAt,
+        lastError: null,
+        nextAttemptAt: null,
+        providerMessageId: result.providerMessageId,
+      },
+    });
+
+    // deliveredAt do AlertLog marca a primeira entrega bem-sucedida
+    await prisma.alertLog.updateMany({
+      where: { id: alertLog.id, deliveredAt: null },
+      data: { deliveredAt: sentAt },
+    });
+
+    return updated;
+  }
+
+  const exhausted = result.permanent || attempts >= MAX_ATTEMPTS;
+
+  return prisma.alertDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: result.bounced ? 'BOUNCED' : exhausted ? 'FAILED' : 'QUEUED',
+      attempts,
+      lastError: result.error,
+      nextAttemptAt: exhausted ? null : new Date(Date.now() + nextAttemptDelay(attempts)),
+    },
+  });
+}
+
+// Processa as entregas em fila cuja próxima tentativa já venceu
+export async function processPendingDeliveries() {
+  const pending = await prisma.alertDelivery.findMany({
+    where: {
+      status: 'QUEUED',
+      nextAttemptAt: { lte: new Date() },
+    },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: WORKER_BATCH_SIZE,
+  });
+
+  for (const delivery of pending) {
+    try {
+      await attemptDelivery(delivery);
+    } catch (error) {
+      console.error(`[ALERT_DELIVERY] Erro ao processar entrega ${delivery.id}:`, error);
+    }
+  }
+
+  return pending.length;
+}
+
+let workerTimer: NodeJS.Timeout | null = null;
+let workerRunning = false;
+
+export function startAlertDeliveryWorker() {
+  if (workerTimer) {
+    return;
+  }
+
+  workerTimer = setInterval(async () => {
+    if (workerRunning) {
+      return;
+    }
+    workerRunning = true;
+    try {
+      const processed = await processPendingDeliveries();
+      if (processed > 0) {
+        console.log(`[ALERT_DELIVERY] ${processed} entrega(s) reprocessada(s)`);
+      }
+    } catch (error) {
+      console.error('[ALERT_DELIVERY] Erro no processamento de reenvios:', error);
+    } finally {
+      workerRunning = false;
+    }
+  }, WORKER_INTERVAL_MS);
+  workerTimer.unref();
+}
@@ -0,0 +1,113 @@
+import type { AlertSubscription, MissingPerson, Sighting } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { Coordinates, haversineKm, resolveLastKnownPosition } from '../lib/geo.js';
+
+const DEFAULT_RADIUS_KM = 25;
+
+export type SubscriptionFilters = {
+  priorities?: string[];
+  genders?: string[];
+  minAge?: number;
+  maxAge?: number;
+};
+
+type AlertCase = MissingPerson & { sightings?: Sighting[] };
+
+function parseFilters(value: unknown): SubscriptionFilters {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {};
+  }
+  return value as SubscriptionFilters;
+}
+
+// Verifica os filtros JSON da subscrição (prioridade, género e faixa etária)
+function matchesFilters(filters: SubscriptionFilters, missingPerson: AlertCase) {
+  if (filters.priorities?.length && !filters.priorities.includes(missingPerson.priority)) {
+    return false;
+  }
+
+  if (filters.genders?.length && (!missingPerson.gender || !filters.genders.includes(missingPerson.gender))) {
+    return false;
+  }
+
+  if (filters.minAge !== undefined || filters.maxAge !== undefined) {
+    if (missingPerson.age == null) {
+      return false;
+    }
+    if (filters.minAge !== undefined && missingPerson.age < filters.minAge) {
+      return false;
+    }
+    if (filters.maxAge !== undefined && missingPerson.age > filters.maxAge) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// Verifica a área da subscrição: raio quando há coordenadas, senão província/município
+function matchesArea(subscription: AlertSubscription, missingPerson: AlertCase, position: Coordinates | null) {
+  if (subscription.latitude != null && subscription.longitude != null && position) {
+    const radius = subscription.radiusKm ?? DEFAULT_RADIUS_KM;
+    return haversineKm({ latitude: subscription.latitude, longitude: subscription.longitude }, position) <= radius;
+  }
+
+  if (!subscription.province) {
+    return false;
+  }
+  if (subscription.province !== missingPerson.province) {
+    return false;
+  }
+  if (subscription.municipality && subscription.municipality !== missingPerson.municipality) {
+    return false;
+  }
+  return true;
+}
+
+export function subscriptionMatches(subscription: AlertSubscription, missingPerson: AlertCase, position: Coordinates | null) {
+  return matchesArea(subscription, missingPerson, position) && matchesFilters(parseFilters(subscription.filters), missingPerson);
+}
+
+/**
+ * Seleciona as subscrições que devem receber o alerta de um caso,
+ * usando a última posição conhecida (avistamento validado ou último sinal).
+ */
+export async function findMatchingSubscriptions(missingPersonId: string) {
+  const missingPerson = await prisma.missingPerson.findUnique({
+    where: { id: missingPersonId },
+    include: {
+      sightings: {
+        where: { status: 'VALIDADO', latitude: { not: null }, longitude: { not: null } },
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+      },
+    },
+  });
+
+  if (!missingPerson) {
+    return null;
+  }
+
+  const position = resolveLastKnownPosition(missingPerson);
+
+  const candidates = await prisma.alertSubscription.findMany({
+    where: {
+      isActive: true,
+      OR: [
+        { province: missingPerson.province },
+        { latitude: { not: null }, longitude: { not: null } },
+      ],
+    },
+    include: {
+      user: {
+        select: { id: true, email: true, phone: true },
+      },
+    },
+  });
+
+  return {
+    missingPerson,
+    position,
+    subscriptions: candidates.filter((sub) => subscriptionMatches(sub, missingPerson, position)),
+  };
+}
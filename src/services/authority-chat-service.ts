@@ -0,0 +1,357 @@
+import type { ChatStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { getIO } from '../lib/socket.js';
+import { dispatchNotification } from './notification-dispatch-service.js';
+
+type AuthorityChatParticipants = { id: string; userId: string; authorityId: string | null };
+
+// Roles que atendem conversas da fila (as mesmas que antes podiam ser escolhidas pelo cidadão)
+export const AUTHORITY_CHAT_STAFF_ROLES = ['AUTORIDADE', 'ADMIN', 'MODERADOR'];
+
+export function isAuthorityChatStaff(role?: string | null) {
+  return Boolean(role) && AUTHORITY_CHAT_STAFF_ROLES.includes(role!);
+}
+
+// Transições permitidas; FECHADO é final
+const STATUS_TRANSITIONS: Record<ChatStatus, ChatStatus[]> = {
+  ABERTO: ['EM_ATENDIMENTO', 'FECHADO'],
+  EM_ATENDIMENTO: ['RESOLVIDO', 'FECHADO'],
+  RESOLVIDO: ['EM_ATENDIMENTO', 'FECHADO'],
+  FECHADO: [],
+};
+
+export function canTransitionAuthorityChat(from: ChatStatus, to: ChatStatus) {
+  return STATUS_TRANSITIONS[from].includes(to);
+}
+
+export type AuthorityChatStaff = {
+  userId: string;
+  role: string;
+  province?: string | null;
+  agency?: string | null;
+};
+
+/**
+ * Filtro da fila de uma autoridade: conversas sem autoridade atribuída da sua província ou órgão
+ * (e as sem província/órgão). ADMIN vê todas as filas.
+ */
+export function authorityQueueWhere(staff: AuthorityChatStaff, filters: { province?: string; agency?: string } = {}) {
+  const scope =
+    staff.role === 'ADMIN'
+      ? {}
+      : {
+          OR: [
+            ...(staff.province ? [{ province: staff.province }] : []),
+            ...(staff.agency ? [{ agency: staff.agency }] : []),
+            { province: null, agency: null },
+          ],
+        };
+
+  return {
+    authorityId: null,
+    status: 'ABERTO' as const,
+    ...scope,
+    ...(filters.province ? { province: filters.province } : {}),
+    ...(filters.agency ? { agency: filters.agency } : {}),
+  };
+}
+
+function inQueueOf(chat: { province: string | null; agency: string | null }, staff: AuthorityChatStaff) {
+  if (staff.role === 'ADMIN') {
+    return true;
+  }
+  if (!chat.province && !chat.agency) {
+    return true;
+  }
+  return (Boolean(chat.province) && chat.province === staff.province) || (Boolean(chat.agency) && chat.agency === staff.agency);
+}
+
+// Participantes leem e escrevem; a equipa da fila pode ler conversas ainda não assumidas; ADMIN lê todas
+export function canViewAuthorityChat(
+  chat: { userId: string; authorityId: string | null; province: string | null; agency: string | null },
+  staff: AuthorityChatStaff,
+) {
+  if (chat.userId === staff.userId || chat.authorityId === staff.userId || staff.role === 'ADMIN') {
+    return true;
+  }
+  return !chat.authorityId && isAuthorityChatStaff(staff.role) && inQueueOf(chat, staff);
+}
+
+// Autoridades que atendem a fila da província/órgão (destinatários de novas conversas e escalonamentos)
+export async function findQueueStaff(province: string | null, agency: string | null) {
+  const scope = [
+    ...(province ? [{ province }] : []),
+    ...(agency ? [{ agency }] : []),
+  ];
+  const users = await prisma.user.findMany({
+    where: {
+      role: 'AUTORIDADE',
+      isBlocked: false,
+      ...(scope.length > 0 ? { OR: scope } : {}),
+    },
+    select: { id: true },
+  });
+  return users.map((user) => user.id);
+}
+
+function minutesBetween(from: Date, to: Date | null) {
+  return to ? Math.round((to.getTime() - from.getTime()) / 60000) : null;
+}
+
+// Tempos de atendimento em minutos (null enquanto não aconteceram)
+export function authorityChatTimings(chat: {
+  createdAt: Date;
+  firstResponseAt: Date | null;
+  resolvedAt: Date | null;
+}) {
+  return {
+    firstResponseMinutes: minutesBetween(chat.createdAt, chat.firstResponseAt),
+    resolutionMinutes: minutesBetween(chat.createdAt, chat.resolvedAt),
+  };
+}
+
+export type AuthorityChatSla = {
+  firstResponseMinutes: number;
+  resolutionHours: number;
+  maxEscalations: number;
+};
+
+export const AUTHORITY_CHAT_SLA_KEY = 'authority_chat_sla';
+
+export const DEFAULT_AUTHORITY_CHAT_SLA: AuthorityChatSla = {
+  firstResponseMinutes: 30,
+  resolutionHours: 72,
+  maxEscalations: 3,
+};
+
+// Limites aceites para cada campo do SLA (também usados na validação do PUT)
+export const AUTHORITY_CHAT_SLA_LIMITS: Record<keyof AuthorityChatSla, { min: number; max: number }> = {
+  firstResponseMinutes: { min: 1, max: 7 * 24 * 60 },
+  resolutionHours: { min: 1, max: 365 * 24 },
+  maxEscalations: { min: 0, max: 10 },
+};
+
+/**
+ * SLA configurável em SystemConfig (chave authority_chat_sla). Cada campo ausente ou inválido
+ * (não inteiro ou fora dos limites) usa o padrão, para o worker nunca calcular prazos a 0 ou NaN.
+ */
+export async function getAuthorityChatSla(): Promise<AuthorityChatSla> {
+  const config = await prisma.systemConfig.findUnique({ where: { key: AUTHORITY_CHAT_SLA_KEY } });
+  const value = (
+    config?.value && typeof config.value === 'object' && !Array.isArray(config.value) ? config.value : {}
+  ) as Record<string, unknown>;
+
+  const field = (key: keyof AuthorityChatSla) => {
+    const stored = value[key];
+    const { min, max } = AUTHORITY_CHAT_SLA_LIMITS[key];
+    return Number.isInteger(stored) && (stored as number) >= min && (stored as number) <= max
+      ? (stored as number)
+      : DEFAULT_AUTHORITY_CHAT_SLA[key];
+  };
+
+  return {
+    firstResponseMinutes: field('firstResponseMinutes'),
+    resolutionHours: field('resolutionHours'),
+    maxEscalations: field('maxEscalations'),
+  };
+}
+
+const SLA_WORKER_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Escala conversas abertas à espera de resposta: a cada período de SLA desde a entrada na fila
+ * (queuedAt) sobe um nível (até maxEscalations) e notifica a equipa da fila e os administradores.
+ * Só são lidas as conversas cujo próximo nível já venceu, das mais antigas para as mais recentes.
+ */
+export async function processAuthorityChatEscalations(now = new Date()) {
+  const sla = await getAuthorityChatSla();
+  const periodMs = sla.firstResponseMinutes * 60 * 1000;
+  if (sla.maxEscalations <= 0) {
+    return 0;
+  }
+
+  const candidates = await prisma.authorityChat.findMany({
+    where: {
+      status: 'ABERTO',
+      OR: Array.from({ length: sla.maxEscalations }, (_, level) => ({
+        escalationLevel: level,
+        queuedAt: { lte: new Date(now.getTime() - (level + 1) * periodMs) },
+      })),
+    },
+    select: {
+      id: true,
+      subject: true,
+      province: true,
+      agency: true,
+      authorityId: true,
+      queuedAt: true,
+      escalationLevel: true,
+    },
+    orderBy: { queuedAt: 'asc' },
+    take: 100,
+  });
+
+  let escalated = 0;
+  for (const chat of candidates) {
+    const waitingMs = now.getTime() - chat.queuedAt.getTime();
+    const dueLevel = Math.min(Math.floor(waitingMs / periodMs), sla.maxEscalations);
+    if (dueLevel <= chat.escalationLevel) {
+      continue;
+    }
+
+    // Atualização condicional: outra instância pode ter escalado (ou a conversa ter sido respondida ou transferida) entretanto
+    const { count } = await prisma.authorityChat.updateMany({
+      where: { id: chat.id, escalationLevel: chat.escalationLevel, queuedAt: chat.queuedAt, status: 'ABERTO' },
+      data: { escalationLevel: dueLevel, escalatedAt: now },
+    });
+    if (count === 0) {
+      continue;
+    }
+
+    const queueStaff = chat.authorityId ? [chat.authorityId] : await findQueueStaff(chat.province, chat.agency);
+    await dispatchNotification('authority_chat_escalated', {
+      variables: { subject: chat.subject, waitingMinutes: Math.round(waitingMs / 60000) },
+      userIds: queueStaff,
+      metadata: { chatId: chat.id, escalationLevel: dueLevel },
+    });
+    escalated++;
+  }
+
+  return escalated;
+}
+
+/**
+ * Avisa uma vez a autoridade atribuída (ou a equipa da fila) e os administradores quando uma
+ * conversa continua por resolver depois de resolutionHours.
+ */
+export async function processAuthorityChatResolutionOverdue(now = new Date()) {
+  const sla = await getAuthorityChatSla();
+
+  const overdue = await prisma.authorityChat.findMany({
+    where: {
+      status: { in: ['ABERTO', 'EM_ATENDIMENTO'] },
+      resolutionOverdueAt: null,
+      createdAt: { lte: new Date(now.getTime() - sla.resolutionHours * 60 * 60 * 1000) },
+    },
+    select: { id: true, subject: true, province: true, agency: true, authorityId: true },
+    orderBy: { createdAt: 'asc' },
+    take: 100,
+  });
+
+  let notified = 0;
+  for (const chat of overdue) {
+    const { count } = await prisma.authorityChat.updateMany({
+      where: { id: chat.id, resolutionOverdueAt: null },
+      data: { resolutionOverdueAt: now },
+    });
+    if (count === 0) {
+      continue;
+    }
+
+    await dispatchNotification('authority_chat_overdue', {
+      variables: { subject: chat.subject, resolutionHours: sla.resolutionHours },
+      userIds: chat.authorityId ? [chat.authorityId] : await findQueueStaff(chat.province, chat.agency),
+      metadata: { chatId: chat.id },
+    });
+    notified++;
+  }
+
+  return notified;
+}
+
+let slaTimer: NodeJS.Timeout | null = null;
+let slaRunning = false;
+
+export function startAuthorityChatSlaWorker() {
+  if (slaTimer) {
+    return;
+  }
+
+  slaTimer = setInterval(async () => {
+    if (slaRunning) {
+      return;
+    }
+    slaRunning = true;
+    try {
+      const escalated = await processAuthorityChatEscalations();
+      if (escalated > 0) {
+        console.log(`[AUTHORITY_CHAT] ${escalated} conversa(s) escalada(s) por falta de resposta`);
+      }
+      const overdue = await processAuthorityChatResolutionOverdue();
+      if (overdue > 0) {
+        console.log(`[AUTHORITY_CHAT] ${overdue} conversa(s) por resolver além do SLA`);
+      }
+    } catch (error) {
+      console.error('[AUTHORITY_CHAT] Erro ao processar SLA:', error);
+    } finally {
+      slaRunning = false;
+    }
+  }, SLA_WORKER_INTERVAL_MS);
+  slaTimer.unref();
+}
+
+export function otherParticipant(chat: AuthorityChatParticipants, userId: string) {
+  return chat.userId === userId ? chat.authorityId : chat.userId;
+}
+
+/**
+ * Avança o marcador de leitura do participante (nunca recua) e avisa o outro participante
+ * com o evento authority-chat-read. Sem messageId marca até a mensagem mais recente.
+ */
+export async function markAuthorityChatRead(chat: AuthorityChatParticipants, userId: string, messageId?: string) {
+  const message = await prisma.authorityChatMessage.findFirst({
+    where: messageId ? { id: messageId, chatId: chat.id } : { chatId: chat.id },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    select: { id: true, createdAt: true },
+  });
+  if (messageId && !message) {
+    return null;
+  }
+
+  const current = await prisma.authorityChatReadMarker.findUnique({
+    where: { chatId_userId: { chatId: chat.id, userId } },
+  });
+  if (!message || (current && current.lastReadAt >= message.createdAt)) {
+    return current;
+  }
+
+  const marker = await prisma.authorityChatReadMarker.upsert({
+    where: { chatId_userId: { chatId: chat.id, userId } },
+    update: { lastReadMessageId: message.id, lastReadAt: message.createdAt },
+    create: { chatId: chat.id, userId, lastReadMessageId: message.id, lastReadAt: message.createdAt },
+  });
+
+  const recipientId = otherParticipant(chat, userId);
+  if (recipientId) {
+    getIO().to(`user:${recipientId}`).emit('authority-chat-read', {
+      chatId: chat.id,
+      userId,
+      lastReadMessageId: marker.lastReadMessageId,
+      readAt: marker.lastReadAt.toISOString(),
+    });
+  }
+
+  return marker;
+}
+
+// Mensagens do outro participante posteriores ao marcador de leitura, por chat
+export async function countAuthorityChatUnread(chatIds: string[], userId: string) {
+  const markers = await prisma.authorityChatReadMarker.findMany({
+    where: { userId, chatId: { in: chatIds } },
+  });
+  const byChat = new Map(markers.map((marker) => [marker.chatId, marker.lastReadAt]));
+
+  const counts = await Promise.all(
+    chatIds.map((chatId) =>
+      prisma.authorityChatMessage.count({
+        where: {
+          chatId,
+          senderId: { not: userId },
+          ...(byChat.has(chatId) ? { createdAt: { gt: byChat.get(chatId) } } : {}),
+        },
+      }),
+    ),
+  );
+
+  return new Map(chatIds.map((chatId, index) => [chatId, counts[index]]));
+}
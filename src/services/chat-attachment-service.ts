@@ -0,0 +1,103 @@
+import path from 'node:path';
+import type { AttachmentKind, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+
+const IMAGE_MAX_SIZE = 5 * 1024 * 1024; // 5MB
+const AUDIO_MAX_SIZE = 10 * 1024 * 1024; // 10MB (notas de voz)
+
+export const MAX_ATTACHMENT_SIZE = Math.max(IMAGE_MAX_SIZE, AUDIO_MAX_SIZE);
+
+type AttachmentRule = { kind: AttachmentKind; maxSize: number; extensions: string[] };
+
+// Tipos aceites nos chats: o mimetype e a extensão têm de corresponder
+const ATTACHMENT_RULES: Record<string, AttachmentRule> = {
+  'image/jpeg': { kind: 'IMAGEM', maxSize: IMAGE_MAX_SIZE, extensions: ['.jpg', '.jpeg'] },
+  'image/png': { kind: 'IMAGEM', maxSize: IMAGE_MAX_SIZE, extensions: ['.png'] },
+  'image/gif': { kind: 'IMAGEM', maxSize: IMAGE_MAX_SIZE, extensions: ['.gif'] },
+  'image/webp': { kind: 'IMAGEM', maxSize: IMAGE_MAX_SIZE, extensions: ['.webp'] },
+  'audio/mpeg': { kind: 'AUDIO', maxSize: AUDIO_MAX_SIZE, extensions: ['.mp3'] },
+  'audio/ogg': { kind: 'AUDIO', maxSize: AUDIO_MAX_SIZE, extensions: ['.ogg', '.oga', '.opus'] },
+  'audio/webm': { kind: 'AUDIO', maxSize: AUDIO_MAX_SIZE, extensions: ['.webm', '.weba'] },
+  'audio/wav': { kind: 'AUDIO', maxSize: AUDIO_MAX_SIZE, extensions: ['.wav'] },
+  'audio/x-wav': { kind: 'AUDIO', maxSize: AUDIO_MAX_SIZE, extensions: ['.wav'] },
+  'audio/mp4': { kind: 'AUDIO', maxSize: AUDIO_MAX_SIZE, extensions: ['.m4a', '.mp4'] },
+  'audio/x-m4a': { kind: 'AUDIO', maxSize: AUDIO_MAX_SIZE, extensions: ['.m4a'] },
+  'audio/aac': { kind: 'AUDIO', maxSize: AUDIO_MAX_SIZE, extensions: ['.aac', '.m4a'] },
+};
+
+export function attachmentRule(mimeType: string, originalName: string) {
+  const rule = ATTACHMENT_RULES[mimeType.toLowerCase()];
+  if (!rule) {
+    return null;
+  }
+  return rule.extensions.includes(path.extname(originalName).toLowerCase()) ? rule : null;
+}
+
+type AttachmentRecord = {
+  id: string;
+  kind: AttachmentKind;
+  mimeType: string;
+  size: number;
+  originalName: string;
+};
+
+// Os anexos são servidos apenas pela rota autenticada (nunca por /uploads)
+export function presentAttachment(attachment: AttachmentRecord) {
+  return {
+    id: attachment.id,
+    kind: attachment.kind,
+    mimeType: attachment.mimeType,
+    size: attachment.size,
+    originalName: attachment.originalName,
+    url: `/api/upload/chat-attachments/${attachment.id}`,
+  };
+}
+
+export const attachmentSelect = {
+  id: true,
+  kind: true,
+  mimeType: true,
+  size: true,
+  originalName: true,
+} as const;
+
+export function normalizeAttachmentIds(value: unknown) {
+  return Array.isArray(value) ? Array.from(new Set(value.filter((id): id is string => typeof id === 'string'))) : [];
+}
+
+// Só o autor do upload pode anexar, e cada anexo só pode ir para uma mensagem
+export async function validatePendingAttachments(attachmentIds: string[], uploaderId: string) {
+  if (attachmentIds.length === 0) {
+    return null;
+  }
+  if (attachmentIds.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    return `No máximo ${MAX_ATTACHMENTS_PER_MESSAGE} anexos por mensagem`;
+  }
+
+  const available = await prisma.chatAttachment.count({
+    where: { id: { in: attachmentIds }, uploaderId, chatMessageId: null, authorityChatMessageId: null },
+  });
+  return available === attachmentIds.length ? null : 'Anexo inválido ou já utilizado';
+}
+
+// Liga os anexos pendentes à mensagem criada na mesma transação
+export async function linkAttachments(
+  tx: Prisma.TransactionClient,
+  attachmentIds: string[],
+  uploaderId: string,
+  target: { chatMessageId: string } | { authorityChatMessageId: string },
+) {
+  if (attachmentIds.length === 0) {
+    return;
+  }
+
+  const { count } = await tx.chatAttachment.updateMany({
+    where: { id: { in: attachmentIds }, uploaderId, chatMessageId: null, authorityChatMessageId: null },
+    data: target,
+  });
+  if (count !== attachmentIds.length) {
+    throw new Error('Anexo inválido ou já utilizado');
+  }
+}
@@ -0,0 +1,607 @@
+import { randomBytes } from 'node:crypto';
+import { Prisma, type AttachmentKind } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { getIO } from '../lib/socket.js';
+import { canViewCase, isModeratorRole } from '../lib/case-access.js';
+import {
+  attachmentSelect,
+  linkAttachments,
+  normalizeAttachmentIds,
+  presentAttachment,
+  validatePendingAttachments,
+} from './chat-attachment-service.js';
+import { dispatchNotification } from './notification-dispatch-service.js';
+
+export const MAX_CHAT_MESSAGE_LENGTH = 1000;
+
+const APP_TIMEZONE = process.env.APP_TIMEZONE || 'Africa/Luanda';
+
+// Limite por usuário, partilhado entre REST e socket
+const RATE_LIMIT_WINDOW_MS = 30 * 1000;
+const RATE_LIMIT_MAX_MESSAGES = 10;
+
+type ChatSender = {
+  id: string;
+  fullName: string;
+  role: string;
+};
+
+export type ModerationContext = {
+  caseId: string;
+  sender: ChatSender;
+  content: string;
+};
+
+// Um hook pode bloquear a mensagem (reason) ou substituir o conteúdo (content)
+export type ModerationResult = { allowed: true; content?: string } | { allowed: false; reason: string };
+
+export type ModerationHook = (context: ModerationContext) => ModerationResult | Promise<ModerationResult>;
+
+export type ChatViewer = {
+  userId?: string | null;
+  role?: string | null;
+};
+
+export type ChatMessageView = {
+  id: string;
+  content: string;
+  senderId: string | null;
+  senderName: string;
+  isAnonymous: boolean;
+  isMine: boolean;
+  createdAt: string;
+  // Apenas para a moderação, que continua a ver mensagens ocultas
+  hidden?: boolean;
+  hiddenReason?: string | null;
+  attachments?: ReturnType<typeof presentAttachment>[];
+};
+
+export type SendChatMessageResult = { ok: true; message: ChatMessageView } | { ok: false; status: number; error: string };
+
+type StoredChatMessage = {
+  id: string;
+  content: string;
+  senderId: string;
+  isAnonymous: boolean;
+  createdAt: Date;
+  hiddenAt?: Date | null;
+  hiddenReason?: string | null;
+  sender: { fullName: string };
+  attachments?: Array<{ id: string; kind: AttachmentKind; mimeType: string; size: number; originalName: string }>;
+};
+
+type ChatAliasInfo = { number: number; pseudonym: string };
+
+type ChatThreadInfo = {
+  id: string;
+  missingPersonId: string;
+  createdById: string;
+  type: string;
+  visibility: string;
+};
+
+export type ThreadAccess = { canRead: boolean; canPost: boolean; canManage: boolean };
+
+const recentMessages = new Map<string, number[]>();
+const moderationHooks: ModerationHook[] = [];
+
+export function registerModerationHook(hook: ModerationHook) {
+  moderationHooks.push(hook);
+}
+
+function isRateLimited(userId: string, now = Date.now()) {
+  const timestamps = (recentMessages.get(userId) ?? []).filter((time) => now - time < RATE_LIMIT_WINDOW_MS);
+  if (timestamps.length >= RATE_LIMIT_MAX_MESSAGES) {
+    recentMessages.set(userId, timestamps);
+    return true;
+  }
+  timestamps.push(now);
+  recentMessages.set(userId, timestamps);
+  return false;
+}
+
+// Termos bloqueados configuráveis (CHAT_BLOCKED_TERMS=termo1,termo2)
+const blockedTerms = (process.env.CHAT_BLOCKED_TERMS || '')
+  .split(',')
+  .map((term) => term.trim().toLowerCase())
+  .filter(Boolean);
+
+registerModerationHook(({ content }) => {
+  const lower = content.toLowerCase();
+  const term = blockedTerms.find((blocked) => lower.includes(blocked));
+  return term ? { allowed: false, reason: 'Mensagem contém termos não permitidos' } : { allowed: true };
+});
+
+async function runModerationHooks(context: ModerationContext): Promise<ModerationResult> {
+  let content = context.content;
+  for (const hook of moderationHooks) {
+    const result = await hook({ ...context, content });
+    if (!result.allowed) {
+      return result;
+    }
+    if (result.content !== undefined) {
+      content = result.content;
+    }
+  }
+  return { allowed: true, content };
+}
+
+// Quem vê o número do informante anónimo (sem a identidade): o autor do caso e a moderação/autoridades
+function canSeeTipsterNumber(viewer: ChatViewer, reporterId: string) {
+  return (
+    viewer.role === 'MODERADOR' ||
+    viewer.role === 'ADMIN' ||
+    viewer.role === 'AUTORIDADE' ||
+    (Boolean(viewer.userId) && viewer.userId === reporterId)
+  );
+}
+
+function generatePseudonym() {
+  return `Anónimo-${randomBytes(2).toString('hex').toUpperCase()}`;
+}
+
+// Pseudónimo estável por thread; o número é sequencial pela ordem da primeira dica anónima
+export async function getOrCreateChatAlias(threadId: string, userId: string): Promise<ChatAliasInfo> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const existing = await prisma.chatAlias.findUnique({
+      where: { threadId_userId: { threadId, userId } },
+    });
+    if (existing) {
+      return existing;
+    }
+
+    const { _max } = await prisma.chatAlias.aggregate({ where: { threadId }, _max: { number: true } });
+    try {
+      return await prisma.chatAlias.create({
+        data: { threadId, userId, number: (_max.number ?? 0) + 1, pseudonym: generatePseudonym() },
+      });
+    } catch (error) {
+      // Outro envio concorrente criou o alias ou ocupou o número: tentar novamente
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+        throw error;
+      }
+    }
+  }
+
+  throw new Error('Não foi possível gerar o pseudónimo do informante');
+}
+
+// Carrega os aliases dos remetentes anónimos de um conjunto de mensagens
+export async function loadChatAliases(threadId: string, messages: Array<{ senderId: string; isAnonymous: boolean }>) {
+  const senderIds = Array.from(new Set(messages.filter((message) => message.isAnonymous).map((message) => message.senderId)));
+  if (senderIds.length === 0) {
+    return new Map<string, ChatAliasInfo>();
+  }
+
+  const aliases = await prisma.chatAlias.findMany({
+    where: { threadId, userId: { in: senderIds } },
+  });
+  return new Map<string, ChatAliasInfo>(aliases.map((alias) => [alias.userId, alias]));
+}
+
+/**
+ * Formata a mensagem para quem a vai ver. Mensagens anónimas nunca expõem senderId nem o nome real
+ * (exceto ao próprio remetente); a identidade só é revelada por POST /chat/:caseId/messages/:id/reveal.
+ */
+export function presentChatMessage(
+  message: StoredChatMessage,
+  viewer: ChatViewer,
+  reporterId: string,
+  alias?: ChatAliasInfo,
+): ChatMessageView {
+  const isMine = Boolean(viewer.userId) && viewer.userId === message.senderId;
+  const moderation = message.hiddenAt ? { hidden: true, hiddenReason: message.hiddenReason ?? null } : {};
+  const attachments = message.attachments?.length ? { attachments: message.attachments.map(presentAttachment) } : {};
+
+  if (!message.isAnonymous) {
+    return {
+      id: message.id,
+      content: message.content,
+      senderId: message.senderId,
+      senderName: message.sender.fullName,
+      isAnonymous: false,
+      isMine,
+      createdAt: message.createdAt.toISOString(),
+      ...moderation,
+      ...attachments,
+    };
+  }
+
+  const senderName = !alias
+    ? 'Anónimo'
+    : canSeeTipsterNumber(viewer, reporterId)
+      ? `Informante anónimo #${alias.number}`
+      : alias.pseudonym;
+
+  return {
+    id: message.id,
+    content: message.content,
+    senderId: isMine ? message.senderId : null,
+    senderName,
+    isAnonymous: true,
+    isMine,
+    createdAt: message.createdAt.toISOString(),
+    ...moderation,
+    ...attachments,
+  };
+}
+
+// Sala Socket.IO do thread: o público continua em case:{id}; threads privados têm sala própria
+export function chatThreadRoom(thread: { id: string; visibility: string; missingPersonId: string }) {
+  return thread.visibility === 'PUBLICO' ? `case:${thread.missingPersonId}` : `thread:${thread.id}`;
+}
+
+// Envia new-message a cada socket da sala com a visão adequada (pseudónimo ou número do informante)
+async function broadcastChatMessage(thread: ChatThreadInfo, reporterId: string, message: StoredChatMessage, alias?: ChatAliasInfo) {
+  const io = getIO();
+  const sockets = await io.in(chatThreadRoom(thread)).fetchSockets();
+
+  for (const socket of sockets) {
+    const view = presentChatMessage(message, { userId: socket.data.userId, role: socket.data.userRole }, reporterId, alias);
+    socket.emit('new-message', {
+      id: view.id,
+      caseId: thread.missingPersonId,
+      threadId: thread.id,
+      message: view.content,
+      senderId: view.senderId,
+      senderName: view.senderName,
+      isAnonymous: view.isAnonymous,
+      attachments: view.attachments ?? [],
+      createdAt: view.createdAt,
+    });
+  }
+}
+
+// Eventos de moderação (message-hidden, message-deleted...) para a sala do thread
+export function emitChatThreadEvent(
+  thread: { id: string; visibility: string; missingPersonId: string },
+  event: string,
+  payload: Record<string, unknown>,
+) {
+  getIO()
+    .to(chatThreadRoom(thread))
+    .emit(event, { caseId: thread.missingPersonId, threadId: thread.id, ...payload });
+}
+
+/**
+ * Referência ao remetente para a moderação e os registos de auditoria: nas mensagens anónimas
+ * apenas o número do informante, para que a identidade só saia pela revelação auditada.
+ */
+export async function moderationSenderRef(message: { threadId: string; senderId: string; isAnonymous: boolean }) {
+  if (!message.isAnonymous) {
+    return { senderId: message.senderId };
+  }
+  const alias = await prisma.chatAlias.findUnique({
+    where: { threadId_userId: { threadId: message.threadId, userId: message.senderId } },
+  });
+  return { tipsterNumber: alias?.number ?? null };
+}
+
+// Silenciamento ativo (o mais longo) do usuário no thread
+export async function getActiveChatMute(threadId: string, userId: string) {
+  return prisma.chatMute.findFirst({
+    where: { threadId, userId, expiresAt: { gt: new Date() } },
+    orderBy: { expiresAt: 'desc' },
+  });
+}
+
+/**
+ * Permissões de um usuário num thread:
+ * - público: quem pode ver o caso lê e escreve; a moderação gere
+ * - família (privado): autor do caso e membros explícitos; autor do caso e moderação gerem os membros
+ * - autoridades: AUTORIDADE/ADMIN e membros convidados; moderadores apenas leem, para moderação
+ */
+export async function getThreadAccess(
+  thread: ChatThreadInfo,
+  caseData: { reporterId: string; approved: boolean; isDeleted?: boolean },
+  viewer: ChatViewer,
+): Promise<ThreadAccess> {
+  const staff = isModeratorRole(viewer.role);
+
+  if (thread.visibility === 'PUBLICO') {
+    const canRead = canViewCase(caseData, viewer.userId, viewer.role);
+    return { canRead, canPost: canRead, canManage: staff };
+  }
+
+  const member = viewer.userId
+    ? Boolean(
+        await prisma.chatThreadMember.findUnique({
+          where: { threadId_userId: { threadId: thread.id, userId: viewer.userId } },
+          select: { id: true },
+        }),
+      )
+    : false;
+
+  if (thread.type === 'AUTORIDADES') {
+    const authority = viewer.role === 'AUTORIDADE' || viewer.role === 'ADMIN';
+    return {
+      canRead: authority || staff || member,
+      canPost: authority || member,
+      canManage: authority,
+    };
+  }
+
+  const owner = Boolean(viewer.userId) && viewer.userId === caseData.reporterId;
+  return {
+    canRead: owner || member || staff,
+    canPost: owner || member || staff,
+    canManage: owner || staff,
+  };
+}
+
+// Thread público do caso (criado na primeira utilização)
+export async function getOrCreatePublicThread(caseId: string) {
+  let thread = await prisma.chatThread.findFirst({
+    where: { missingPersonId: caseId, visibility: 'PUBLICO' },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  if (!thread) {
+    const caseData = await prisma.missingPerson.findUnique({
+      where: { id: caseId },
+      select: { reporterId: true },
+    });
+
+    if (!caseData) {
+      throw new Error('Caso não encontrado');
+    }
+
+    thread = await prisma.chatThread.create({
+      data: {
+        missingPersonId: caseId,
+        createdById: caseData.reporterId,
+        type: 'FAMILIARES',
+        visibility: 'PUBLICO',
+      },
+    });
+  }
+
+  return thread;
+}
+
+/**
+ * Caminho único de envio de mensagens no chat de um caso (POST /chat/:caseId/messages e evento chat-message).
+ * O remetente vem sempre da sessão autenticada; aplica validação, acesso ao thread, rate limit e moderação
+ * antes de persistir, e só então retransmite para a sala do thread e notifica.
+ * Sem threadId a mensagem vai para o thread público do caso.
+ */
+export async function sendCaseChatMessage(
+  caseId: string,
+  senderId: string,
+  rawContent: unknown,
+  options: { anonymous?: boolean; threadId?: string; attachmentIds?: unknown } = {},
+): Promise<SendChatMessageResult> {
+  const content = typeof rawContent === 'string' ? rawContent.trim() : '';
+  const attachmentIds = normalizeAttachmentIds(options.attachmentIds);
+  if (!caseId || typeof caseId !== 'string') {
+    return { ok: false, status: 400, error: 'Caso inválido' };
+  }
+  // Mensagens só com anexos (foto, nota de voz) podem ter o texto vazio
+  if ((content.length < 1 && attachmentIds.length === 0) || content.length > MAX_CHAT_MESSAGE_LENGTH) {
+    return { ok: false, status: 400, error: `A mensagem deve ter entre 1 e ${MAX_CHAT_MESSAGE_LENGTH} caracteres` };
+  }
+
+  const [sender, caseData] = await Promise.all([
+    prisma.user.findUnique({ where: { id: senderId }, select: { id: true, fullName: true, role: true, isBlocked: true } }),
+    prisma.missingPerson.findUnique({
+      where: { id: caseId },
+      select: { reporterId: true, fullName: true, approved: true, isDeleted: true },
+    }),
+  ]);
+
+  if (!sender || sender.isBlocked) {
+    return { ok: false, status: 403, error: 'Usuário sem permissão para enviar mensagens' };
+  }
+  if (!caseData) {
+    return { ok: false, status: 404, error: 'Caso não encontrado' };
+  }
+
+  const thread = options.threadId
+    ? await prisma.chatThread.findFirst({ where: { id: options.threadId, missingPersonId: caseId } })
+    : await getOrCreatePublicThread(caseId);
+  if (!thread) {
+    return { ok: false, status: 404, error: 'Conversa não encontrada' };
+  }
+
+  const access = await getThreadAccess(thread, caseData, { userId: sender.id, role: sender.role });
+  if (!access.canPost) {
+    return { ok: false, status: 403, error: 'Sem permissão para escrever nesta conversa' };
+  }
+
+  const mute = await getActiveChatMute(thread.id, sender.id);
+  if (mute) {
+    return {
+      ok: false,
+      status: 403,
+      error: `Você está silenciado nesta conversa até ${mute.expiresAt.toLocaleString('pt-PT', { timeZone: APP_TIMEZONE })}`,
+    };
+  }
+
+  const anonymous = options.anonymous === true;
+  if (anonymous && thread.visibility !== 'PUBLICO') {
+    return { ok: false, status: 400, error: 'Dicas anónimas só podem ser enviadas no chat público do caso' };
+  }
+  if (isRateLimited(sender.id)) {
+    return { ok: false, status: 429, error: 'Muitas mensagens em pouco tempo. Aguarde alguns segundos.' };
+  }
+
+  const attachmentError = await validatePendingAttachments(attachmentIds, sender.id);
+  if (attachmentError) {
+    return { ok: false, status: 400, error: attachmentError };
+  }
+
+  const moderation = await runModerationHooks({ caseId, sender, content });
+  if (!moderation.allowed) {
+    console.log(`[CHAT] Mensagem de ${sender.id} bloqueada no caso ${caseId}: ${moderation.reason}`);
+    return { ok: false, status: 422, error: moderation.reason };
+  }
+
+  const alias = anonymous ? await getOrCreateChatAlias(thread.id, sender.id) : undefined;
+
+  const message = await prisma.$transaction(async (tx) => {
+    const created = await tx.chatMessage.create({
+      data: {
+        threadId: thread.id,
+        senderId: sender.id,
+        content: moderation.content ?? content,
+        isAnonymous: anonymous,
+      },
+    });
+    await linkAttachments(tx, attachmentIds, sender.id, { chatMessageId: created.id });
+
+    return tx.chatMessage.findUniqueOrThrow({
+      where: { id: created.id },
+      include: {
+        sender: { select: { fullName: true } },
+        attachments: { select: attachmentSelect },
+      },
+    });
+  });
+
+  // Enviar via Socket.IO para todos no chat
+  await broadcastChatMessage(thread, caseData.reporterId, message, alias);
+
+  // As notificações vão para o autor do caso ou para quem conversa com ele, que veem o número do informante
+  const notifiedName = alias ? `Informante anónimo #${alias.number}` : sender.fullName;
+  await notifyChatParticipants(caseId, thread, caseData, { ...sender, fullName: notifiedName }, message.content);
+
+  const payload = presentChatMessage(message, { userId: sender.id, role: sender.role }, caseData.reporterId, alias);
+  return { ok: true, message: payload };
+}
+
+// Thread público: notificações APENAS entre reporter e o outro usuário
+// Threads privados: todos os participantes explícitos, o criador e (na família) o autor do caso
+async function notifyChatParticipants(
+  caseId: string,
+  thread: ChatThreadInfo,
+  caseData: { reporterId: string; fullName: string },
+  sender: ChatSender,
+  content: string,
+) {
+  const preview = content ? `${content.substring(0, 50)}${content.length > 50 ? '...' : ''}` : 'Enviou um anexo';
+  const variables = { caseName: caseData.fullName, senderName: sender.fullName, preview };
+
+  if (thread.visibility !== 'PUBLICO') {
+    const members = await prisma.chatThreadMember.findMany({
+      where: { threadId: thread.id },
+      select: { userId: true },
+    });
+    await dispatchNotification('new_chat_message', {
+      variables,
+      userIds: [
+        thread.createdById,
+        thread.type === 'AUTORIDADES' ? null : caseData.reporterId,
+        ...members.map((member) => member.userId),
+      ],
+      excludeUserIds: [sender.id],
+      metadata: { caseId, threadId: thread.id },
+    });
+    return;
+  }
+
+  // 1. Se o sender NÃO é o reporter, notificar APENAS o reporter
+  if (caseData.reporterId !== sender.id) {
+    console.log(`[CHAT] Enviando notificação para reporter ${caseData.reporterId} sobre mensagem de ${sender.id}`);
+    await dispatchNotification('new_chat_message', {
+      variables,
+      userIds: [caseData.reporterId],
+      title: 'Nova mensagem no chat do seu caso',
+      metadata: { caseId, threadId: thread.id },
+    });
+    return;
+  }
+
+  // 2. Se o sender É o reporter, notificar APENAS o último usuário que enviou mensagem (conversa 1-1)
+  const lastMessage = await prisma.chatMessage.findFirst({
+    where: {
+      threadId: thread.id,
+      senderId: { not: sender.id },
+    },
+    orderBy: { createdAt: 'desc' },
+    select: { senderId: true },
+  });
+
+  if (lastMessage) {
+    console.log(`[CHAT] Enviando notificação para ${lastMessage.senderId} sobre mensagem do reporter ${sender.id}`);
+    await dispatchNotification('new_chat_message', {
+      variables,
+      userIds: [lastMessage.senderId],
+      title: 'Nova mensagem do autor do caso',
+      metadata: { caseId, threadId: thread.id },
+    });
+  }
+}
+
+/**
+ * Avança o marcador de leitura do usuário no thread (nunca recua) e avisa com messages-read.
+ * O marcador completo vai só para a sala do próprio usuário; na sala do thread, em threads públicos ou
+ * quando o leitor tem pseudónimo, não segue o userId (no máximo o pseudónimo), para não ligar a conta às dicas anónimas.
+ * Sem messageId marca até a mensagem mais recente. Retorna null se a mensagem não pertencer ao thread.
+ */
+export async function markThreadRead(
+  thread: { id: string; visibility: string; missingPersonId: string },
+  userId: string,
+  messageId?: string,
+) {
+  const message = await prisma.chatMessage.findFirst({
+    where: messageId ? { id: messageId, threadId: thread.id } : { threadId: thread.id, deletedAt: null },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    select: { id: true, createdAt: true },
+  });
+  if (messageId && !message) {
+    return null;
+  }
+
+  const current = await prisma.chatReadMarker.findUnique({
+    where: { threadId_userId: { threadId: thread.id, userId } },
+  });
+  if (!message || (current && current.lastReadAt >= message.createdAt)) {
+    return current;
+  }
+
+  const marker = await prisma.chatReadMarker.upsert({
+    where: { threadId_userId: { threadId: thread.id, userId } },
+    update: { lastReadMessageId: message.id, lastReadAt: message.createdAt },
+    create: { threadId: thread.id, userId, lastReadMessageId: message.id, lastReadAt: message.createdAt },
+  });
+
+  const receipt = { lastReadMessageId: marker.lastReadMessageId, readAt: marker.lastReadAt.toISOString() };
+  getIO()
+    .to(`user:${userId}`)
+    .emit('messages-read', { caseId: thread.missingPersonId, threadId: thread.id, userId, ...receipt });
+
+  const alias = await prisma.chatAlias.findUnique({ where: { threadId_userId: { threadId: thread.id, userId } } });
+  if (alias) {
+    emitChatThreadEvent(thread, 'messages-read', { reader: alias.pseudonym, ...receipt });
+  } else if (thread.visibility === 'PUBLICO') {
+    emitChatThreadEvent(thread, 'messages-read', receipt);
+  } else {
+    emitChatThreadEvent(thread, 'messages-read', { userId, ...receipt });
+  }
+
+  return marker;
+}
+
+// Mensagens não lidas por thread (de outros usuários, visíveis, posteriores ao marcador)
+export async function countUnreadByThread(threadIds: string[], userId: string) {
+  const markers = await prisma.chatReadMarker.findMany({
+    where: { userId, threadId: { in: threadIds } },
+  });
+  const byThread = new Map(markers.map((marker) => [marker.threadId, marker.lastReadAt]));
+
+  const counts = await Promise.all(
+    threadIds.map((threadId) =>
+      prisma.chatMessage.count({
+        where: {
+          threadId,
+          senderId: { not: userId },
+          deletedAt: null,
+          hiddenAt: null,
+          ...(byThread.has(threadId) ? { createdAt: { gt: byThread.get(threadId) } } : {}),
+        },
+      }),
+    ),
+  );
+
+  return new Map(threadIds.map((threadId, index) => [threadId, counts[index]]));
+}
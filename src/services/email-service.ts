@@ -10,10 +10,10 @@ function ensureEmailConfig() {
   }
 }
 
-export async function sendPasswordResetEmail(email: string, token: string) {
+function createTransporter() {
   ensureEmailConfig();
 
-  const transporter = nodemailer.createTransport({
+  return nodemailer.createTransport({
     host: smtpHost,
     port: smtpPort,
     secure: smtpSecure,
@@ -22,12 +22,32 @@ export async function sendPasswordResetEmail(email: string, token: string) {
         ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
         : undefined,
   });
+}
+
+export async function sendEmail(options: { to: string; subject: string; html: string; text?: string }) {
+  const transporter = createTransporter();
+
+  const info = await transporter.sendMail({
+    from: process.env.SMTP_FROM || 'Base de Dados <no-reply@desaparecidos.gov>',
+    to: options.to,
+    subject: options.subject,
+    html: options.html,
+    text: options.text,
+  });
+
+  return {
+    messageId: info.messageId as string | undefined,
+    rejected: ((info.rejected ?? []) as Array<string | { address: string }>).map((item) =>
+      typeof item === 'string' ? item : item.address,
+    ),
+  };
+}
 
+export async function sendPasswordResetEmail(email: string, token: string) {
   const frontendUrl = (process.env.FRONTEND_URL || 'http://localhost:5174').replace(/\/$/, '');
   const resetUrl = `${frontendUrl}/recuperar-senha?token=${token}`;
 
-  await transporter.sendMail({
-    from: process.env.SMTP_FROM || 'Base de Dados <no-reply@desaparecidos.gov>',
+  await sendEmail({
     to: email,
     subject: 'Recuperação de senha - Base de Dados de Pessoas Desaparecidas',
     html: `
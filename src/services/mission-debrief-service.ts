@@ -0,0 +1,173 @@
+import { prisma } from '../lib/prisma.js';
+import { dispatchNotification } from './notification-dispatch-service.js';
+
+export type DebriefFindingInput = {
+  description: string;
+  missingPersonId: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  foundAt: Date | null;
+  evidenceUrls: string[];
+};
+
+export type DebriefInput = {
+  missionId: string;
+  missionTitle: string;
+  sector: { id: string; code: string } | null;
+  authorId: string;
+  summary: string;
+  uncoveredAreas: string | null;
+  uncoveredSectorCodes: string[];
+  recommendations: string | null;
+  evidenceUrls: string[];
+  findings: DebriefFindingInput[];
+};
+
+export const debriefInclude = {
+  author: { select: { id: true, fullName: true } },
+  findings: {
+    orderBy: { createdAt: 'asc' as const },
+    include: { missingPerson: { select: { id: true, fullName: true, status: true } } },
+  },
+};
+
+/**
+ * Grava o relatório com as descobertas e acrescenta cada descoberta ligada a um caso
+ * ao histórico desse caso (mantendo o estado atual do caso).
+ */
+export async function createDebrief(input: DebriefInput) {
+  return prisma.$transaction(async (tx) => {
+    const debrief = await tx.missionDebrief.create({
+      data: {
+        missionId: input.missionId,
+        sectorId: input.sector?.id ?? null,
+        sectorCode: input.sector?.code ?? null,
+        authorId: input.authorId,
+        summary: input.summary,
+        uncoveredAreas: input.uncoveredAreas,
+        uncoveredSectorCodes: input.uncoveredSectorCodes,
+        recommendations: input.recommendations,
+        evidenceUrls: input.evidenceUrls,
+        findings: { create: input.findings },
+      },
+      include: debriefInclude,
+    });
+
+    const caseIds = Array.from(
+      new Set(input.findings.map((finding) => finding.missingPersonId).filter((id): id is string => Boolean(id))),
+    );
+    const cases = await tx.missingPerson.findMany({ where: { id: { in: caseIds } }, select: { id: true, status: true } });
+    const statuses = new Map(cases.map((caseData) => [caseData.id, caseData.status]));
+    const origin = `Relatório da missão "${input.missionTitle}"${input.sector ? ` (setor ${input.sector.code})` : ''}`;
+
+    await tx.caseHistory.createMany({
+      data: input.findings
+        .filter((finding) => finding.missingPersonId && statuses.has(finding.missingPersonId))
+        .map((finding) => ({
+          missingPersonId: finding.missingPersonId!,
+          status: statuses.get(finding.missingPersonId!)!,
+          notes: `${origin}: ${finding.description}`,
+          createdById: input.authorId,
+        })),
+    });
+
+    return debrief;
+  });
+}
+
+export type ConvertFindingResult =
+  | { ok: true; sighting: Awaited<ReturnType<typeof prisma.sighting.create>> }
+  | { ok: false; status: number; error: string };
+
+type SightingOverrides = { missingPersonId?: string; province?: string; municipality?: string; location?: string };
+
+/**
+ * Converte uma descoberta num avistamento validado do caso, em nome do autor do relatório.
+ * A descoberta é marcada primeiro, dentro da transação, para não gerar dois avistamentos.
+ */
+export async function convertFindingToSighting(
+  missionId: string,
+  findingId: string,
+  moderatorId: string,
+  overrides: SightingOverrides,
+): Promise<ConvertFindingResult> {
+  const result = await prisma.$transaction(async (tx) => {
+    const finding = await tx.debriefFinding.findFirst({
+      where: { id: findingId, debrief: { missionId } },
+      include: {
+        debrief: {
+          select: {
+            sectorCode: true,
+            author: { select: { id: true, fullName: true, phone: true } },
+            mission: { select: { title: true, province: true, municipality: true } },
+          },
+        },
+      },
+    });
+    if (!finding) {
+      return { ok: false as const, status: 404, error: 'Descoberta não encontrada' };
+    }
+    if (finding.latitude === null || finding.longitude === null) {
+      return { ok: false as const, status: 400, error: 'A descoberta não tem localização' };
+    }
+
+    const missingPersonId = overrides.missingPersonId ?? finding.missingPersonId;
+    if (!missingPersonId) {
+      return { ok: false as const, status: 400, error: 'Indique o caso a que a descoberta se refere' };
+    }
+    const linked = await tx.missionCase.findFirst({
+      where: { missionId, missingPersonId, missingPerson: { isDeleted: false } },
+      select: { id: true },
+    });
+    if (!linked) {
+      return { ok: false as const, status: 400, error: 'O caso não está ligado a esta missão' };
+    }
+
+    const { count } = await tx.debriefFinding.updateMany({
+      where: { id: findingId, convertedAt: null },
+      data: { convertedAt: new Date(), convertedById: moderatorId, missingPersonId },
+    });
+    if (count === 0) {
+      return { ok: false as const, status: 409, error: 'A descoberta já foi convertida em avistamento' };
+    }
+
+    const { debrief } = finding;
+    const sector = debrief.sectorCode ? ` · setor ${debrief.sectorCode}` : '';
+    const sighting = await tx.sighting.create({
+      data: {
+        missingPersonId,
+        reporterId: debrief.author.id,
+        reporterName: debrief.author.fullName,
+        reporterContact: debrief.author.phone || '',
+        description: finding.description,
+        province: overrides.province ?? debrief.mission.province,
+        municipality: overrides.municipality ?? debrief.mission.municipality,
+        location: overrides.location ?? `Missão "${debrief.mission.title}"${sector}`,
+        latitude: finding.latitude,
+        longitude: finding.longitude,
+        evidenceUrl: finding.evidenceUrls[0] ?? null,
+        status: 'VALIDADO',
+      },
+    });
+    await tx.debriefFinding.update({ where: { id: findingId }, data: { sightingId: sighting.id } });
+
+    return { ok: true as const, sighting };
+  });
+
+  if (result.ok) {
+    const caseData = await prisma.missingPerson.findUnique({
+      where: { id: result.sighting.missingPersonId },
+      select: { fullName: true, reporterId: true },
+    });
+    if (caseData) {
+      await dispatchNotification('new_sighting', {
+        variables: { caseName: caseData.fullName },
+        userIds: [caseData.reporterId],
+        excludeUserIds: [moderatorId],
+        metadata: { caseId: result.sighting.missingPersonId, sightingId: result.sighting.id },
+      });
+    }
+  }
+
+  return result;
+}
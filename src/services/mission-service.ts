@@ -0,0 +1,281 @@
+import { randomUUID } from 'node:crypto';
+import type { MissionStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { getIO } from '../lib/socket.js';
+import type { ImportedFeature } from '../lib/geo-formats.js';
+import { dispatchNotification } from './notification-dispatch-service.js';
+
+// Transições permitidas; CONCLUIDA é final
+const STATUS_TRANSITIONS: Record<MissionStatus, MissionStatus[]> = {
+  PLANEJADA: ['ATIVA'],
+  ATIVA: ['PAUSADA', 'CONCLUIDA'],
+  PAUSADA: ['ATIVA', 'CONCLUIDA'],
+  CONCLUIDA: [],
+};
+
+export function canTransitionMission(from: MissionStatus, to: MissionStatus) {
+  return STATUS_TRANSITIONS[from].includes(to);
+}
+
+export type MissionViewer = { userId: string; role?: string | null };
+
+type MissionParticipation = { role: string } | null;
+
+// Gerem a missão: o criador, os líderes inscritos e moderadores/administradores
+export function canManageMission(mission: { ownerId: string }, participation: MissionParticipation, viewer: MissionViewer) {
+  return (
+    mission.ownerId === viewer.userId ||
+    participation?.role === 'LIDER' ||
+    viewer.role === 'MODERADOR' ||
+    viewer.role === 'ADMIN'
+  );
+}
+
+export function getMissionParticipation(missionId: string, userId: string) {
+  return prisma.missionParticipant.findUnique({
+    where: { missionId_userId: { missionId, userId } },
+  });
+}
+
+// Missão com a inscrição do usuário e se a pode gerir; null se não existir
+export async function getMissionAccess(missionId: string, viewer: MissionViewer) {
+  const mission = await prisma.volunteerMission.findUnique({ where: { id: missionId } });
+  if (!mission) {
+    return null;
+  }
+  const participation = await getMissionParticipation(missionId, viewer.userId);
+  return { mission, participation, canManage: canManageMission(mission, participation, viewer) };
+}
+
+export type EnrollResult =
+  | { ok: true; participant: Awaited<ReturnType<typeof prisma.missionParticipant.create>> }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Inscreve o voluntário respeitando o limite de participantes. A contagem e a criação correm
+ * numa transação serializável para que duas inscrições simultâneas não ultrapassem o limite.
+ */
+export async function enrollInMission(missionId: string, userId: string, role: 'LIDER' | 'MEMBRO' = 'MEMBRO'): Promise<EnrollResult> {
+  try {
+    return await prisma.$transaction(
+      async (tx) => {
+        const mission = await tx.volunteerMission.findUnique({
+          where: { id: missionId },
+          select: { status: true, maxParticipants: true, _count: { select: { participants: true } } },
+        });
+        if (!mission) {
+          return { ok: false as const, status: 404, error: 'Missão não encontrada' };
+        }
+        if (mission.status === 'CONCLUIDA') {
+          return { ok: false as const, status: 400, error: 'Missão já concluída' };
+        }
+
+        const existing = await tx.missionParticipant.findUnique({
+          where: { missionId_userId: { missionId, userId } },
+        });
+        if (existing) {
+          return { ok: false as const, status: 409, error: 'Já está inscrito nesta missão' };
+        }
+        if (mission.maxParticipants !== null && mission._count.participants >= mission.maxParticipants) {
+          return { ok: false as const, status: 409, error: 'Missão sem vagas disponíveis' };
+        }
+
+        const participant = await tx.missionParticipant.create({ data: { missionId, userId, role } });
+        return { ok: true as const, participant };
+      },
+      { isolationLevel: 'Serializable' },
+    );
+  } catch (error: any) {
+    // Conflito de serialização ou inscrição duplicada em paralelo
+    if (error?.code === 'P2034' || error?.code === 'P2002') {
+      return { ok: false, status: 409, error: 'Não foi possível concluir a inscrição, tente novamente' };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Retira o voluntário da missão e, na mesma transação, das atribuições aos setores da missão
+ * (que de outra forma continuariam a dar acesso de escrita) e dos turnos que ainda não começaram,
+ * libertando as vagas e os lembretes. Devolve false se não estava inscrito.
+ */
+export async function removeMissionParticipant(missionId: string, userId: string) {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.missionParticipant.deleteMany({ where: { missionId, userId } });
+    if (count === 0) {
+      return false;
+    }
+    await tx.missionSectorAssignment.deleteMany({ where: { userId, sector: { missionId } } });
+    await tx.shiftSignup.deleteMany({ where: { userId, shift: { missionId, startsAt: { gt: new Date() } } } });
+    return true;
+  });
+}
+
+export const linkedCaseSelect = { id: true, fullName: true, status: true, province: true, priority: true } as const;
+
+/**
+ * As missões são visíveis a qualquer usuário autenticado, por isso só casos públicos (aprovados e não
+ * eliminados, como em canViewCase para o público) podem ser ligados ou aparecer ligados a uma missão.
+ */
+export const missionVisibleCaseWhere = { approved: true, isDeleted: false } as const;
+
+// Ids de casos que podem ser ligados a missões
+export async function findLinkableCaseIds(caseIds: string[]) {
+  if (caseIds.length === 0) {
+    return [];
+  }
+  const cases = await prisma.missingPerson.findMany({
+    where: { id: { in: caseIds }, ...missionVisibleCaseWhere },
+    select: { id: true },
+  });
+  return cases.map((caseData) => caseData.id);
+}
+
+/**
+ * Avisa os participantes das missões em curso ligadas ao caso de que a pessoa foi encontrada,
+ * para que possam desmobilizar. As missões não são concluídas automaticamente: podem cobrir outros casos.
+ */
+export async function notifyMissionsCaseFound(caseId: string, caseName: string, excludeUserId?: string) {
+  const links = await prisma.missionCase.findMany({
+    where: { missingPersonId: caseId, mission: { status: { not: 'CONCLUIDA' } } },
+    include: {
+      mission: { select: { id: true, title: true, participants: { select: { userId: true } } } },
+    },
+  });
+
+  for (const { mission } of links) {
+    await dispatchNotification('mission_case_found', {
+      variables: { caseName, missionTitle: mission.title },
+      userIds: mission.participants.map((participant) => participant.userId),
+      excludeUserIds: [excludeUserId],
+      metadata: { missionId: mission.id, caseId },
+    });
+  }
+
+  return links.length;
+}
+
+/**
+ * Resumo da cobertura da grelha: setores por estado e percentagem coberta
+ * (setores parcialmente pesquisados contam metade).
+ */
+export function sectorCoverage(sectors: Array<{ status: string }>) {
+  const counts = { NAO_PESQUISADO: 0, PARCIAL: 0, PESQUISADO: 0 } as Record<string, number>;
+  sectors.forEach((sector) => {
+    counts[sector.status] = (counts[sector.status] ?? 0) + 1;
+  });
+
+  const total = sectors.length;
+  return {
+    total,
+    searched: counts.PESQUISADO,
+    partial: counts.PARCIAL,
+    notSearched: counts.NAO_PESQUISADO,
+    coveragePercent: total === 0 ? 0 : Math.round(((counts.PESQUISADO + counts.PARCIAL / 2) / total) * 100),
+  };
+}
+
+// Sala Socket.IO com as posições em tempo real dos voluntários da missão
+export function missionRoom(missionId: string) {
+  return `mission:${missionId}`;
+}
+
+// Trajetos e posições: só quem está inscrito ou gere a missão
+export function canViewMissionTracks(access: { participation: unknown; canManage: boolean }) {
+  return Boolean(access.participation) || access.canManage;
+}
+
+// Check-ins e pontos de trajeto: só voluntários inscritos e com a missão ativa
+export async function checkInError(missionId: string, userId: string) {
+  const mission = await prisma.volunteerMission.findUnique({
+    where: { id: missionId },
+    select: { status: true },
+  });
+  if (!mission) {
+    return { status: 404, error: 'Missão não encontrada' };
+  }
+  if (mission.status !== 'ATIVA') {
+    return { status: 400, error: 'Check-in só é permitido em missões ativas' };
+  }
+  if (!(await getMissionParticipation(missionId, userId))) {
+    return { status: 403, error: 'Inscreva-se na missão antes de fazer check-in' };
+  }
+  return null;
+}
+
+export type TrackPointInput = {
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null;
+  recordedAt?: Date;
+};
+
+/**
+ * Grava um lote de pontos GPS do voluntário (ordenados pela hora de leitura) e envia
+ * a posição mais recente para a sala da missão (evento mission-positions).
+ */
+export async function recordTrackPoints(missionId: string, volunteerId: string, points: TrackPointInput[]) {
+  const now = new Date();
+  const ordered = points
+    .map((point) => ({ ...point, recordedAt: point.recordedAt ?? now }))
+    .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+
+  const { count } = await prisma.missionCheckIn.createMany({
+    data: ordered.map((point) => ({
+      missionId,
+      volunteerId,
+      latitude: point.latitude,
+      longitude: point.longitude,
+      accuracy: point.accuracy ?? null,
+      recordedAt: point.recordedAt,
+    })),
+  });
+
+  const volunteer = await prisma.user.findUnique({ where: { id: volunteerId }, select: { fullName: true } });
+  const last = ordered[ordered.length - 1];
+  getIO().to(missionRoom(missionId)).emit('mission-positions', {
+    missionId,
+    volunteerId,
+    volunteerName: volunteer?.fullName ?? 'Voluntário',
+    points: ordered.map((point) => ({
+      latitude: point.latitude,
+      longitude: point.longitude,
+      accuracy: point.accuracy ?? null,
+      recordedAt: point.recordedAt.toISOString(),
+    })),
+    lastPosition: { latitude: last.latitude, longitude: last.longitude, recordedAt: last.recordedAt.toISOString() },
+  });
+
+  return count;
+}
+
+export const MAX_MISSION_CHECKPOINTS = 500;
+
+// Checkpoints guardados em VolunteerMission.checkpoints (rotas e áreas planeadas importadas de GPX/GeoJSON)
+export type MissionCheckpoint = ImportedFeature & {
+  id: string;
+  source: 'GPX' | 'GEOJSON';
+  importedAt: string;
+  importedById: string;
+};
+
+export function readCheckpoints(value: unknown): MissionCheckpoint[] {
+  return Array.isArray(value)
+    ? value.filter(
+        (item): item is MissionCheckpoint =>
+          Boolean(item) && typeof item === 'object' && typeof item.kind === 'string' && Array.isArray(item.coordinates),
+      )
+    : [];
+}
+
+export function toCheckpoints(features: ImportedFeature[], source: MissionCheckpoint['source'], importedById: string) {
+  const importedAt = new Date().toISOString();
+  return features.map((feature, index) => ({
+    ...feature,
+    id: randomUUID(),
+    name: feature.name ?? `${feature.kind === 'PONTO' ? 'Ponto' : feature.kind === 'ROTA' ? 'Rota' : 'Área'} ${index + 1}`,
+    source,
+    importedAt,
+    importedById,
+  }));
+}
@@ -0,0 +1,205 @@
+import { prisma } from '../lib/prisma.js';
+import { emitNotification } from '../lib/socket.js';
+import { deliverAlert } from './alert-channel-service.js';
+import { resolveRecipientChannels } from './notification-preference-service.js';
+
+// Variáveis disponíveis nos templates de cada evento ({caseName}, {status}...)
+export type NotificationEventVariables = {
+  new_case: { caseName: string; province: string };
+  case_approved: { caseName: string };
+  case_rejected: { caseName: string; reason: string };
+  new_sighting: { caseName: string };
+  case_status_changed: { caseName: string; status: string };
+  new_chat_message: { caseName: string; senderName: string; preview: string };
+  new_authority_chat: { subject: string };
+  authority_chat_message: { senderName: string; preview: string };
+  authority_chat_status: { subject: string; status: string };
+  authority_chat_escalated: { subject: string; waitingMinutes: number };
+  authority_chat_overdue: { subject: string; resolutionHours: number };
+  mission_case_found: { caseName: string; missionTitle: string };
+  shift_reminder: { missionTitle: string; startsAt: string };
+  global_announcement: { title: string; content: string };
+};
+
+export type NotificationEventType = keyof NotificationEventVariables;
+
+type EventDefaults = {
+  title: string;
+  template: string | null;
+  targetRoles: string[] | null;
+  // Tipo enviado ao cliente, quando difere do identificador do evento
+  clientType?: string;
+};
+
+export const DEFAULT_NOTIFICATION_EVENTS: Record<NotificationEventType, EventDefaults> = {
+  new_case: {
+    title: 'Novo caso pendente de aprovação',
+    template: 'Novo caso reportado: {caseName}',
+    targetRoles: ['MODERADOR', 'ADMIN'],
+    clientType: 'new_pending_case',
+  },
+  case_approved: { title: 'Caso aprovado', template: 'Seu caso "{caseName}" foi aprovado', targetRoles: null },
+  case_rejected: { title: 'Caso rejeitado', template: 'Seu caso "{caseName}" foi rejeitado. Motivo: {reason}', targetRoles: null },
+  new_sighting: {
+    title: 'Novo avistamento reportado',
+    template: 'Novo avistamento reportado para o caso "{caseName}"',
+    targetRoles: null,
+  },
+  case_status_changed: {
+    title: 'Status do caso atualizado',
+    template: 'Status do caso "{caseName}" alterado para: {status}',
+    targetRoles: null,
+  },
+  new_chat_message: {
+    title: 'Nova mensagem no chat do caso',
+    template: 'Nova mensagem no chat do caso "{caseName}"',
+    targetRoles: null,
+  },
+  new_authority_chat: {
+    title: 'Nova mensagem de cidadão',
+    template: 'Nova conversa iniciada com autoridade',
+    targetRoles: ['ADMIN', 'AUTORIDADE'],
+  },
+  authority_chat_message: { title: 'Nova mensagem', template: '{senderName}: {preview}', targetRoles: null },
+  authority_chat_status: {
+    title: 'Conversa com autoridade atualizada',
+    template: 'A sua conversa "{subject}": {status}',
+    targetRoles: null,
+  },
+  authority_chat_escalated: {
+    title: 'Conversa sem resposta',
+    template: 'A conversa "{subject}" aguarda resposta há {waitingMinutes} minutos',
+    targetRoles: ['ADMIN'],
+  },
+  authority_chat_overdue: {
+    title: 'Conversa por resolver',
+    template: 'A conversa "{subject}" continua por resolver após {resolutionHours} horas',
+    targetRoles: ['ADMIN'],
+  },
+  mission_case_found: {
+    title: 'Pessoa encontrada',
+    template: '"{caseName}" foi encontrado(a). A missão "{missionTitle}" pode ser desmobilizada',
+    targetRoles: null,
+  },
+  shift_reminder: {
+    title: 'Turno a começar',
+    template: 'O seu turno na missão "{missionTitle}" começa às {startsAt}',
+    targetRoles: null,
+  },
+  global_announcement: { title: 'Comunicado', template: null, targetRoles: null },
+};
+
+type DispatchOptions<E extends NotificationEventType> = {
+  variables: NotificationEventVariables[E];
+  // Destinatários do contexto (ex: autor do caso), somados aos targetRoles da configuração
+  userIds?: Array<string | null | undefined>;
+  // Substitui os targetRoles configurados (ex: comunicado dirigido a roles específicas)
+  roles?: string[] | null;
+  // Usuários que nunca recebem (ex: quem originou o evento)
+  excludeUserIds?: Array<string | null | undefined>;
+  title?: string;
+  // Mensagem usada quando o evento não tem template
+  fallbackMessage?: string;
+  metadata?: Record<string, unknown>;
+};
+
+export function renderTemplate(template: string, variables: Record<string, unknown>) {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    variables[key] !== undefined && variables[key] !== null ? String(variables[key]) : placeholder,
+  );
+}
+
+function parseRoles(value: unknown): string[] | null {
+  return Array.isArray(value) ? value.filter((role): role is string => typeof role === 'string') : null;
+}
+
+/**
+ * Ponto central de envio de notificações por evento.
+ * Lê NotificationConfig (enabled, mandatory, template, targetRoles) a cada envio para que as alterações
+ * feitas pelo admin tenham efeito imediato; sem configuração no banco usa os valores padrão.
+ * Os canais de cada destinatário seguem as suas NotificationPreference, salvo eventos obrigatórios.
+ */
+export async function dispatchNotification<E extends NotificationEventType>(eventType: E, options: DispatchOptions<E>) {
+  const defaults = DEFAULT_NOTIFICATION_EVENTS[eventType];
+
+  try {
+    const config = await prisma.notificationConfig.findUnique({ where: { eventType } });
+
+    if (config && !config.enabled) {
+      console.log(`[NOTIFICATION] Evento ${eventType} desativado, notificação ignorada`);
+      return { sent: false, recipients: 0 };
+    }
+
+    const template = config ? config.template : defaults.template;
+    const variables = options.variables as Record<string, unknown>;
+    const message = template ? renderTemplate(template, variables) : options.fallbackMessage ?? '';
+    const roles = options.roles !== undefined && options.roles !== null
+      ? options.roles
+      : config
+        ? parseRoles(config.targetRoles)
+        : defaults.targetRoles;
+
+    const recipients = new Set(options.userIds?.filter((id): id is string => Boolean(id)) ?? []);
+    if (roles?.length) {
+      const users = await prisma.user.findMany({
+        where: { role: { in: roles as any[] }, isBlocked: false },
+        select: { id: true },
+      });
+      users.forEach((user) => recipients.add(user.id));
+    }
+    options.excludeUserIds?.forEach((id) => id && recipients.delete(id));
+
+    if (recipients.size === 0) {
+      return { sent: false, recipients: 0 };
+    }
+
+    const title = options.title ? renderTemplate(options.title, variables) : defaults.title;
+    const channelsByUser = await resolveRecipientChannels(eventType, Array.from(recipients), config?.mandatory ?? false);
+    const inAppRecipients = Array.from(channelsByUser.entries())
+      .filter(([, channels]) => channels.inApp)
+      .map(([id]) => id);
+
+    if (inAppRecipients.length > 0) {
+      await emitNotification({
+        userIds: inAppRecipients,
+        type: defaults.clientType ?? eventType,
+        title,
+        message,
+        metadata: { ...options.metadata, eventType },
+      });
+    }
+
+    // Canais externos (push/email/SMS) conforme as preferências de cada destinatário
+    const externalRecipients = Array.from(channelsByUser.entries()).filter(
+      ([, channels]) => channels.push || channels.email || channels.sms,
+    );
+    if (externalRecipients.length > 0) {
+      const users = await prisma.user.findMany({
+        where: { id: { in: externalRecipients.map(([id]) => id) } },
+        select: { id: true, email: true, phone: true, pushToken: true },
+      });
+      const data: Record<string, string> = { eventType };
+      Object.entries(options.metadata ?? {}).forEach(([key, value]) => {
+        data[key] = String(value);
+      });
+
+      // Não bloqueia a resposta da rota à espera do SMTP/gateway (deliverAlert não lança erros)
+      void Promise.all(
+        users.flatMap((user) => {
+          const channels = channelsByUser.get(user.id)!;
+          const recipient = { userId: user.id, email: user.email, phone: user.phone, deviceToken: user.pushToken };
+          return [
+            channels.push && user.pushToken ? deliverAlert('PUSH', recipient, { title, message, data }) : null,
+            channels.email ? deliverAlert('EMAIL', recipient, { title, message, data }) : null,
+            channels.sms && user.phone ? deliverAlert('SMS', recipient, { title, message, data }) : null,
+          ].filter(Boolean);
+        }),
+      );
+    }
+
+    return { sent: true, recipients: recipients.size };
+  } catch (error) {
+    console.error(`[NOTIFICATION] Erro ao despachar evento ${eventType}:`, error);
+    return { sent: false, recipients: 0 };
+  }
+}
@@ -0,0 +1,94 @@
+import type { NotificationPreference } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+
+export type NotificationChannels = {
+  inApp: boolean;
+  push: boolean;
+  email: boolean;
+  sms: boolean;
+};
+
+// Canais usados quando o usuário não definiu preferências para o evento
+export const DEFAULT_CHANNELS: NotificationChannels = {
+  inApp: true,
+  push: true,
+  email: false,
+  sms: false,
+};
+
+const APP_TIMEZONE = process.env.APP_TIMEZONE || 'Africa/Luanda';
+
+function toMinutes(value: string) {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Minutos desde a meia-noite no fuso horário da aplicação
+function currentMinutes(now: Date) {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: APP_TIMEZONE,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const hour = Number(parts.find((part) => part.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find((part) => part.type === 'minute')?.value ?? 0);
+  return hour * 60 + minute;
+}
+
+// Intervalos podem atravessar a meia-noite (ex: 22:00-07:00)
+export function isWithinQuietHours(start: string | null, end: string | null, now = new Date()) {
+  if (!start || !end) {
+    return false;
+  }
+
+  const startMinutes = toMinutes(start);
+  const endMinutes = toMinutes(end);
+  const nowMinutes = currentMinutes(now);
+
+  if (startMinutes === endMinutes) {
+    return false;
+  }
+  if (startMinutes < endMinutes) {
+    return nowMinutes >= startMinutes && nowMinutes < endMinutes;
+  }
+  return nowMinutes >= startMinutes || nowMinutes < endMinutes;
+}
+
+function channelsFromPreference(preference: NotificationPreference | undefined, mandatory: boolean, now: Date): NotificationChannels {
+  if (!preference) {
+    return { ...DEFAULT_CHANNELS };
+  }
+
+  // Eventos obrigatórios: o usuário pode acrescentar canais, mas não desligar os padrão nem silenciar
+  if (mandatory) {
+    return {
+      inApp: DEFAULT_CHANNELS.inApp || preference.inApp,
+      push: DEFAULT_CHANNELS.push || preference.push,
+      email: DEFAULT_CHANNELS.email || preference.email,
+      sms: DEFAULT_CHANNELS.sms || preference.sms,
+    };
+  }
+
+  const quiet = isWithinQuietHours(preference.quietHoursStart, preference.quietHoursEnd, now);
+  return {
+    inApp: preference.inApp,
+    push: preference.push && !quiet,
+    email: preference.email && !quiet,
+    sms: preference.sms && !quiet,
+  };
+}
+
+/**
+ * Resolve os canais de cada destinatário para um evento, de acordo com as suas preferências.
+ * Durante as horas de silêncio a notificação continua na caixa de entrada, mas não gera push/email/SMS.
+ */
+export async function resolveRecipientChannels(eventType: string, userIds: string[], mandatory: boolean) {
+  const preferences = await prisma.notificationPreference.findMany({
+    where: { eventType, userId: { in: userIds } },
+  });
+  const byUser = new Map(preferences.map((preference) => [preference.userId, preference]));
+  const now = new Date();
+
+  return new Map(userIds.map((userId) => [userId, channelsFromPreference(byUser.get(userId), mandatory, now)]));
+}
@@ -0,0 +1,202 @@
+import type { VolunteerSkill } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { dispatchNotification } from './notification-dispatch-service.js';
+
+const APP_TIMEZONE = process.env.APP_TIMEZONE || 'Africa/Luanda';
+const REMINDER_WORKER_INTERVAL_MS = 60 * 1000;
+const SHIFT_REMINDER_MINUTES = Number(process.env.SHIFT_REMINDER_MINUTES) || 60;
+
+export const VOLUNTEER_SKILLS: VolunteerSkill[] = [
+  'PRIMEIROS_SOCORROS',
+  'OPERADOR_DRONE',
+  'CONDUTOR_4X4',
+  'CINOTECNIA',
+  'COMUNICACOES_RADIO',
+  'NAVEGACAO',
+];
+
+export const TIME_OF_DAY_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function toMinutes(value: string) {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Dia da semana (0 = domingo) e minutos desde a meia-noite no fuso horário da aplicação
+function localSlot(date: Date) {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: APP_TIMEZONE,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const weekday = parts.find((part) => part.type === 'weekday')?.value ?? 'Sun';
+  const hour = Number(parts.find((part) => part.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find((part) => part.type === 'minute')?.value ?? 0);
+  return { dayOfWeek: WEEKDAYS.indexOf(weekday), minutes: hour * 60 + minute };
+}
+
+export type AvailabilityWindow = { dayOfWeek: number; startTime: string; endTime: string };
+
+/**
+ * O voluntário está disponível se alguma janela do dia em que o turno começa se sobrepõe ao turno.
+ * Turnos que atravessam a meia-noite contam até ao fim desse dia; janelas com fim antes do início
+ * (ex: 22:00-06:00) valem até à meia-noite.
+ */
+export function isAvailableForShift(windows: AvailabilityWindow[], startsAt: Date, endsAt: Date) {
+  const start = localSlot(startsAt);
+  const end = localSlot(endsAt);
+  const sameDay = end.dayOfWeek === start.dayOfWeek && endsAt.getTime() - startsAt.getTime() < 24 * 60 * 60 * 1000;
+  const shiftEnd = sameDay ? end.minutes : 24 * 60;
+
+  return windows.some((window) => {
+    if (window.dayOfWeek !== start.dayOfWeek) {
+      return false;
+    }
+    const windowStart = toMinutes(window.startTime);
+    const windowEnd = toMinutes(window.endTime) > windowStart ? toMinutes(window.endTime) : 24 * 60;
+    return windowStart < shiftEnd && start.minutes < windowEnd;
+  });
+}
+
+export function missingSkills(required: VolunteerSkill[], skills: VolunteerSkill[] | undefined | null) {
+  return required.filter((skill) => !(skills ?? []).includes(skill));
+}
+
+export type SignupResult =
+  | { ok: true; signup: Awaited<ReturnType<typeof prisma.shiftSignup.create>>; missingSkills: VolunteerSkill[] }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Inscreve o voluntário num turno. Exige inscrição na missão, respeita o número de vagas e recusa
+ * turnos sobrepostos a outros em que já está inscrito. Competências em falta não bloqueiam, mas são devolvidas.
+ */
+export async function signUpForShift(missionId: string, shiftId: string, userId: string): Promise<SignupResult> {
+  try {
+    return await prisma.$transaction(
+      async (tx) => {
+        const shift = await tx.missionShift.findFirst({
+          where: { id: shiftId, missionId },
+          include: { mission: { select: { status: true } }, _count: { select: { signups: true } } },
+        });
+        if (!shift) {
+          return { ok: false as const, status: 404, error: 'Turno não encontrado' };
+        }
+        if (shift.mission.status === 'CONCLUIDA') {
+          return { ok: false as const, status: 400, error: 'Missão já concluída' };
+        }
+        if (shift.startsAt <= new Date()) {
+          return { ok: false as const, status: 400, error: 'O turno já começou' };
+        }
+
+        const participation = await tx.missionParticipant.findUnique({
+          where: { missionId_userId: { missionId, userId } },
+        });
+        if (!participation) {
+          return { ok: false as const, status: 403, error: 'Inscreva-se na missão antes de escolher um turno' };
+        }
+
+        const existing = await tx.shiftSignup.findUnique({ where: { shiftId_userId: { shiftId, userId } } });
+        if (existing) {
+          return { ok: false as const, status: 409, error: 'Já está inscrito neste turno' };
+        }
+        if (shift._count.signups >= shift.requiredHeadcount) {
+          return { ok: false as const, status: 409, error: 'Turno sem vagas disponíveis' };
+        }
+
+        const overlapping = await tx.shiftSignup.findFirst({
+          where: { userId, shift: { startsAt: { lt: shift.endsAt }, endsAt: { gt: shift.startsAt } } },
+          select: { id: true },
+        });
+        if (overlapping) {
+          return { ok: false as const, status: 409, error: 'Já está inscrito noutro turno à mesma hora' };
+        }
+
+        const profile = await tx.volunteerProfile.findUnique({ where: { userId }, select: { skills: true } });
+        const signup = await tx.shiftSignup.create({ data: { shiftId, userId } });
+        return { ok: true as const, signup, missingSkills: missingSkills(shift.requiredSkills, profile?.skills) };
+      },
+      { isolationLevel: 'Serializable' },
+    );
+  } catch (error: any) {
+    // Conflito de serialização ou inscrição duplicada em paralelo
+    if (error?.code === 'P2034' || error?.code === 'P2002') {
+      return { ok: false, status: 409, error: 'Não foi possível concluir a inscrição, tente novamente' };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Lembra os voluntários dos turnos que começam dentro de SHIFT_REMINDER_MINUTES.
+ * Cada inscrição é marcada antes do envio para não ser lembrada duas vezes.
+ */
+export async function processShiftReminders(now = new Date()) {
+  const horizon = new Date(now.getTime() + SHIFT_REMINDER_MINUTES * 60 * 1000);
+  const due = await prisma.shiftSignup.findMany({
+    where: {
+      reminderSentAt: null,
+      shift: { startsAt: { gt: now, lte: horizon }, mission: { status: { not: 'CONCLUIDA' } } },
+    },
+    include: {
+      shift: { select: { id: true, title: true, startsAt: true, missionId: true, mission: { select: { title: true } } } },
+    },
+    take: 200,
+  });
+
+  let sent = 0;
+  for (const signup of due) {
+    // Atualização condicional: outra instância pode ter enviado entretanto
+    const { count } = await prisma.shiftSignup.updateMany({
+      where: { id: signup.id, reminderSentAt: null },
+      data: { reminderSentAt: now },
+    });
+    if (count === 0) {
+      continue;
+    }
+
+    const startsAt = new Intl.DateTimeFormat('pt-PT', {
+      timeZone: APP_TIMEZONE,
+      dateStyle: 'short',
+      timeStyle: 'short',
+    }).format(signup.shift.startsAt);
+    await dispatchNotification('shift_reminder', {
+      variables: { missionTitle: signup.shift.mission.title, startsAt },
+      userIds: [signup.userId],
+      metadata: { missionId: signup.shift.missionId, shiftId: signup.shift.id },
+    });
+    sent++;
+  }
+
+  return sent;
+}
+
+let reminderTimer: NodeJS.Timeout | null = null;
+let reminderRunning = false;
+
+export function startShiftReminderWorker() {
+  if (reminderTimer) {
+    return;
+  }
+
+  reminderTimer = setInterval(async () => {
+    if (reminderRunning) {
+      return;
+    }
+    reminderRunning = true;
+    try {
+      const sent = await processShiftReminders();
+      if (sent > 0) {
+        console.log(`[SHIFTS] ${sent} lembrete(s) de turno enviado(s)`);
+      }
+    } catch (error) {
+      console.error('[SHIFTS] Erro ao enviar lembretes de turno:', error);
+    } finally {
+      reminderRunning = false;
+    }
+  }, REMINDER_WORKER_INTERVAL_MS);
+  reminderTimer.unref();
+}